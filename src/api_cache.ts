@@ -0,0 +1,39 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { ApiStructure } from "./gradio_api.js";
+
+interface ApiCacheEntry {
+  saved: string;
+  api: ApiStructure;
+}
+
+/**
+ * The view_api() schema of each space, saved so that tools can be listed at
+ * startup without connecting. The schema is saved again whenever the space
+ * is connected, so changes to a space apply from the next start.
+ */
+export class ApiSchemaCache {
+  constructor(private readonly directory: string) {}
+
+  async get(reference: string): Promise<ApiStructure | undefined> {
+    try {
+      const entry: ApiCacheEntry = JSON.parse(
+        await fs.readFile(this.entryPath(reference), "utf-8")
+      );
+      return entry.api;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(reference: string, api: ApiStructure): Promise<void> {
+    const entry: ApiCacheEntry = { saved: new Date().toISOString(), api };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.entryPath(reference), JSON.stringify(entry));
+  }
+
+  // One file per space name or app URL, e.g. "evalstate%2Fflux.json"
+  private entryPath(reference: string): string {
+    return path.join(this.directory, `${encodeURIComponent(reference)}.json`);
+  }
+}
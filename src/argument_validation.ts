@@ -0,0 +1,198 @@
+import type { JsonSchema } from "./python_type.js";
+
+/** The input schema of a tool, as made by convertApiToSchema */
+export interface InputSchema {
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+/**
+ * Check tool arguments against the tool's input schema. Values are coerced
+ * where it is safe ("7" to 7, "true" to true, a single value to an array) and
+ * missing arguments take their defaults. Returns a message for each invalid
+ * argument.
+ */
+export function validateArguments(
+  args: Record<string, unknown>,
+  schema: InputSchema
+): { values: Record<string, unknown>; errors: string[] } {
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+  const required = new Set(schema.required ?? []);
+
+  for (const [name, propertySchema] of Object.entries(schema.properties)) {
+    const value = args[name];
+    // null stands for "not given" unless the parameter accepts null
+    if (value === undefined || (value === null && !acceptsNull(propertySchema))) {
+      if (propertySchema.default !== undefined) {
+        values[name] = structuredClone(propertySchema.default);
+      } else if (required.has(name)) {
+        errors.push(`${name}: is required`);
+      }
+      continue;
+    }
+    values[name] = coerce(value, propertySchema, name, errors);
+  }
+
+  const unknown = Object.keys(args).filter((name) => !(name in schema.properties));
+  for (const name of unknown) {
+    errors.push(
+      `${name}: is not a parameter of this tool. Expected one of ${Object.keys(schema.properties).join(", ")}`
+    );
+  }
+  return { values, errors };
+}
+
+function coerce(value: unknown, schema: JsonSchema, path: string, errors: string[]): unknown {
+  if (schema.anyOf) {
+    // Prefer an alternative the value matches as it is, then one it can be coerced to
+    for (const allowCoercion of [false, true]) {
+      for (const alternative of schema.anyOf) {
+        const attempt: string[] = [];
+        const result = coerceValue(value, alternative, path, attempt, allowCoercion);
+        if (attempt.length === 0) return result;
+      }
+    }
+    errors.push(`${path}: expected ${schema.anyOf.map(describeSchema).join(" or ")}, got ${describeValue(value)}`);
+    return value;
+  }
+  return coerceValue(value, schema, path, errors, true);
+}
+
+function coerceValue(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  errors: string[],
+  allowCoercion: boolean
+): unknown {
+  if (schema.anyOf) return coerce(value, schema, path, errors);
+
+  const typed = schema.type ? coerceType(value, schema, path, errors, allowCoercion) : value;
+  if (typed === INVALID) {
+    errors.push(`${path}: expected ${describeSchema(schema)}, got ${describeValue(value)}`);
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === typed)) {
+    errors.push(
+      `${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}, got ${describeValue(value)}`
+    );
+  }
+  if (typeof typed === "number") {
+    if (typeof schema.minimum === "number" && typed < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}, got ${typed}`);
+    }
+    if (typeof schema.maximum === "number" && typed > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}, got ${typed}`);
+    }
+  }
+  return typed;
+}
+
+const INVALID = Symbol("invalid");
+
+function coerceType(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  errors: string[],
+  allowCoercion: boolean
+): unknown {
+  switch (schema.type) {
+    case "string":
+      if (typeof value === "string") return value;
+      if (allowCoercion && (typeof value === "number" || typeof value === "boolean")) {
+        return String(value);
+      }
+      return INVALID;
+    case "integer":
+    case "number": {
+      const number =
+        typeof value === "number"
+          ? value
+          : allowCoercion && typeof value === "string" && value.trim() !== ""
+            ? Number(value)
+            : NaN;
+      if (!Number.isFinite(number)) return INVALID;
+      if (schema.type === "integer" && !Number.isInteger(number)) return INVALID;
+      return number;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (allowCoercion && typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === "true";
+      }
+      return INVALID;
+    case "null":
+      return value === null ? value : INVALID;
+    case "array":
+      if (Array.isArray(value)) return coerceItems(value, schema, path, errors);
+      if (allowCoercion && value !== null && typeof value !== "object") {
+        return coerceItems([value], schema, path, errors);
+      }
+      return INVALID;
+    case "object":
+      if (value === null || typeof value !== "object" || Array.isArray(value)) return INVALID;
+      return coerceProperties(value as Record<string, unknown>, schema, path, errors);
+    default:
+      return value;
+  }
+}
+
+function coerceItems(items: unknown[], schema: JsonSchema, path: string, errors: string[]) {
+  if (schema.minItems !== undefined && items.length < schema.minItems) {
+    errors.push(`${path}: must have at least ${schema.minItems} items, got ${items.length}`);
+  }
+  if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+    errors.push(`${path}: must have at most ${schema.maxItems} items, got ${items.length}`);
+  }
+  return items.map((item, index) => {
+    const itemSchema = schema.prefixItems?.[index] ?? schema.items;
+    return itemSchema ? coerce(item, itemSchema, `${path}[${index}]`, errors) : item;
+  });
+}
+
+function coerceProperties(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  errors: string[]
+) {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => {
+      const propertySchema = schema.properties?.[key] ?? schema.additionalProperties;
+      return [key, propertySchema ? coerce(item, propertySchema, `${path}.${key}`, errors) : item];
+    })
+  );
+}
+
+function acceptsNull(schema: JsonSchema): boolean {
+  if (schema.anyOf) return schema.anyOf.some(acceptsNull);
+  return schema.type === undefined || schema.type === "null" || (schema.enum?.includes(null) ?? false);
+}
+
+function describeSchema(schema: JsonSchema): string {
+  if (schema.anyOf) return schema.anyOf.map(describeSchema).join(" or ");
+  switch (schema.type) {
+    case "integer":
+      return "an integer";
+    case "array":
+      return "an array";
+    case "object":
+      return "an object";
+    case "null":
+      return "null";
+    case undefined:
+      return "any value";
+    default:
+      return `a ${schema.type}`;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  return JSON.stringify(value);
+}
@@ -0,0 +1,127 @@
+import { config } from "./config.js";
+
+export interface ConcurrencyLimits {
+  // Maximum concurrent calls to each space, 0 for no limit
+  perSpace: number;
+  // Maximum concurrent calls across all spaces, 0 for no limit
+  global: number;
+}
+
+/** A place in the local queue, holding a call slot once granted */
+export class QueueTicket {
+  granted = false;
+  released = false;
+  private next!: Promise<void>;
+  private resolveNext!: () => void;
+
+  constructor(
+    readonly key: string,
+    private readonly limiter: ConcurrencyLimiter
+  ) {
+    this.resetNext();
+  }
+
+  // Number of calls waiting ahead of this one, 0 when it is next
+  get ahead(): number {
+    return this.limiter.waitingAhead(this);
+  }
+
+  // Resolves when the position changes, the slot is granted or the ticket is
+  // released. Take the promise before yielding, so that no change is missed.
+  changed(): Promise<void> {
+    return this.next;
+  }
+
+  // Give up the slot, or the place in the queue
+  release() {
+    if (this.released) return;
+    this.released = true;
+    this.limiter.release(this);
+    this.notify();
+  }
+
+  notify() {
+    const resolve = this.resolveNext;
+    this.resetNext();
+    resolve();
+  }
+
+  private resetNext() {
+    this.next = new Promise((resolve) => (this.resolveNext = resolve));
+  }
+}
+
+/**
+ * Limits the number of concurrent calls to each space and overall. Calls over
+ * the limits wait in a first-in first-out queue; a call only waits behind
+ * calls that are blocked by the same limit.
+ */
+export class ConcurrencyLimiter {
+  private running = new Map<string, number>();
+  private total = 0;
+  private queue: QueueTicket[] = [];
+
+  constructor(private readonly limits: () => ConcurrencyLimits) {}
+
+  // Join the queue for a space. The ticket is granted at once if a slot is free
+  enqueue(key: string): QueueTicket {
+    const ticket = new QueueTicket(key, this);
+    this.queue.push(ticket);
+    this.dispatch();
+    return ticket;
+  }
+
+  waitingAhead(ticket: QueueTicket): number {
+    const index = this.queue.indexOf(ticket);
+    if (index < 0) return 0;
+    const globalFull = this.isGlobalFull();
+    return this.queue
+      .slice(0, index)
+      .filter((other) => globalFull || other.key === ticket.key).length;
+  }
+
+  release(ticket: QueueTicket) {
+    if (ticket.granted) {
+      this.total--;
+      const count = (this.running.get(ticket.key) ?? 1) - 1;
+      if (count > 0) this.running.set(ticket.key, count);
+      else this.running.delete(ticket.key);
+      this.dispatch();
+    } else {
+      this.queue = this.queue.filter((other) => other !== ticket);
+      this.dispatch(true);
+    }
+  }
+
+  // Grant free slots in queue order, telling waiting calls if their position changed
+  private dispatch(positionsChanged = false) {
+    const { perSpace } = this.limits();
+    const waiting: QueueTicket[] = [];
+    for (const ticket of this.queue) {
+      const running = this.running.get(ticket.key) ?? 0;
+      if (!this.isGlobalFull() && (perSpace <= 0 || running < perSpace)) {
+        ticket.granted = true;
+        this.running.set(ticket.key, running + 1);
+        this.total++;
+      } else {
+        waiting.push(ticket);
+      }
+    }
+    const changed = positionsChanged || this.queue.length !== waiting.length;
+    const granted = this.queue.filter((ticket) => ticket.granted);
+    this.queue = waiting;
+    granted.forEach((ticket) => ticket.notify());
+    if (changed) waiting.forEach((ticket) => ticket.notify());
+  }
+
+  private isGlobalFull(): boolean {
+    const { global } = this.limits();
+    return global > 0 && this.total >= global;
+  }
+}
+
+/** Limits calls to spaces, as configured with --max-concurrent and --max-concurrent-per-space */
+export const callLimiter = new ConcurrencyLimiter(() => ({
+  perSpace: config.maxConcurrentPerSpace,
+  global: config.maxConcurrent,
+}));
@@ -1,56 +1,200 @@
 import minimist from 'minimist';
 import path from 'path';
-import { mkdirSync } from 'fs';
+import { loadConfigFile, type GeneratorResults, type SpaceConfig } from './space_config.js';
+import { isLogLevel, LOG_LEVELS, type LogLevel } from './logger.js';
 
 export interface Config {
   claudeDesktopMode: boolean;
   workDir: string;
   spacePaths: string[];
+  configFile?: string;
+  spaces: SpaceConfig[];
   hfToken?: string;
   debug: boolean;
+  allEndpoints: boolean;
+  transport: 'stdio' | 'http';
+  host: string;
+  port: number;
+  authToken?: string;
+  sessionWorkDirs: boolean;
+  asyncJobs: boolean;
+  generatorResults: GeneratorResults;
+  cache: boolean;
+  bypassCache: boolean;
+  cacheTtl: number;
+  cacheMaxSize: number;
+  hubUrl: string;
+  manageSpaces: boolean;
+  watchConfig: boolean;
+  connectTimeout: number;
+  wakeTimeout: number;
+  retries: number;
+  retryDelay: number;
+  retryMaxDelay: number;
+  maxConcurrent: number;
+  maxConcurrentPerSpace: number;
+  logLevel: LogLevel;
+  logFile?: string;
+  otlpEndpoint?: string;
 }
 
 export const config = parseConfig();
 
 export function parseConfig(): Config {
   const argv = minimist(process.argv.slice(2), {
-    string: ['work-dir', 'hf-token'],
-    boolean: ['desktop-mode', 'debug'],
+    string: ['work-dir', 'hf-token', 'config', 'transport', 'host', 'auth-token', 'generator-results', 'cache-ttl', 'cache-max-size', 'hub-url', 'connect-timeout', 'wake-timeout', 'retries', 'retry-delay', 'retry-max-delay', 'max-concurrent', 'max-concurrent-per-space', 'log-level', 'log-file', 'otlp-endpoint'],
+    boolean: ['desktop-mode', 'debug', 'all-endpoints', 'session-work-dirs', 'async-jobs', 'cache', 'manage-spaces', 'watch-config'],
     default: {
       'desktop-mode': process.env.CLAUDE_DESKTOP_MODE !== 'false',
       'work-dir': process.env.MCP_HF_WORK_DIR || process.cwd(),
       'hf-token': process.env.HF_TOKEN,
+      'config': process.env.MCP_HF_CONFIG,
+      'transport': process.env.MCP_HF_TRANSPORT || 'stdio',
+      'host': process.env.MCP_HF_HOST || '127.0.0.1',
+      'port': process.env.MCP_HF_PORT || 3000,
+      'auth-token': process.env.MCP_HF_AUTH_TOKEN,
+      'session-work-dirs': process.env.MCP_HF_SESSION_WORK_DIRS === 'true',
+      'async-jobs': process.env.MCP_HF_ASYNC_JOBS === 'true',
+      'generator-results': process.env.MCP_HF_GENERATOR_RESULTS || 'last',
+      'cache': process.env.MCP_HF_CACHE === 'true',
+      'cache-ttl': process.env.MCP_HF_CACHE_TTL || '86400',
+      'cache-max-size': process.env.MCP_HF_CACHE_MAX_SIZE || '500',
+      'hub-url': process.env.HF_ENDPOINT || 'https://huggingface.co',
+      'manage-spaces': process.env.MCP_HF_MANAGE_SPACES === 'true',
+      'watch-config': process.env.MCP_HF_WATCH_CONFIG === 'true',
+      'connect-timeout': process.env.MCP_HF_CONNECT_TIMEOUT || '30',
+      'wake-timeout': process.env.MCP_HF_WAKE_TIMEOUT || '300',
+      'retries': process.env.MCP_HF_RETRIES || '2',
+      'retry-delay': process.env.MCP_HF_RETRY_DELAY || '2',
+      'retry-max-delay': process.env.MCP_HF_RETRY_MAX_DELAY || '30',
+      'max-concurrent': process.env.MCP_HF_MAX_CONCURRENT || '0',
+      'max-concurrent-per-space': process.env.MCP_HF_MAX_CONCURRENT_PER_SPACE || '0',
       'debug': false,
+      'log-level': process.env.MCP_HF_LOG_LEVEL,
+      'log-file': process.env.MCP_HF_LOG_FILE,
+      'otlp-endpoint': process.env.OTEL_EXPORTER_OTLP_ENDPOINT,
+      'all-endpoints': process.env.MCP_HF_ALL_ENDPOINTS === 'true',
     },
     '--': true,
   });
 
-  const config = {
+  const configFile = argv['config'] ? path.resolve(argv['config']) : undefined;
+  const fileSpaces = configFile ? loadConfigFile(configFile) : [];
+
+  const transport = argv['transport'];
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport [${transport}]. Use: stdio or http`);
+  }
+
+  if (argv['watch-config'] && !configFile) {
+    throw new Error('--watch-config requires a configuration file (--config)');
+  }
+
+  const port = Number(argv['port']);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port [${argv['port']}]`);
+  }
+
+  const generatorResults = argv['generator-results'];
+  if (generatorResults !== 'last' && generatorResults !== 'all') {
+    throw new Error(`Unknown generator results [${generatorResults}]. Use: last or all`);
+  }
+
+  // --no-cache bypasses the cache, even for spaces that enable it in the config file
+  const bypassCache =
+    process.argv.slice(2).includes('--no-cache') || process.env.MCP_HF_CACHE === 'false';
+
+  const cacheTtl = Number(argv['cache-ttl']);
+  if (!Number.isFinite(cacheTtl) || cacheTtl <= 0) {
+    throw new Error(`Invalid cache TTL [${argv['cache-ttl']}]. Use a number of seconds`);
+  }
+
+  const cacheMaxSize = Number(argv['cache-max-size']);
+  if (!Number.isFinite(cacheMaxSize) || cacheMaxSize <= 0) {
+    throw new Error(`Invalid cache size [${argv['cache-max-size']}]. Use a number of megabytes`);
+  }
+
+  const connectTimeout = Number(argv['connect-timeout']);
+  if (!Number.isFinite(connectTimeout) || connectTimeout <= 0) {
+    throw new Error(`Invalid connect timeout [${argv['connect-timeout']}]. Use a number of seconds`);
+  }
+
+  const wakeTimeout = Number(argv['wake-timeout']);
+  if (!Number.isFinite(wakeTimeout) || wakeTimeout <= 0) {
+    throw new Error(`Invalid wake timeout [${argv['wake-timeout']}]. Use a number of seconds`);
+  }
+
+  const retries = Number(argv['retries']);
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error(`Invalid retries [${argv['retries']}]. Use a whole number`);
+  }
+
+  const retryDelay = Number(argv['retry-delay']);
+  if (!Number.isFinite(retryDelay) || retryDelay < 0) {
+    throw new Error(`Invalid retry delay [${argv['retry-delay']}]. Use a number of seconds`);
+  }
+
+  const retryMaxDelay = Number(argv['retry-max-delay']);
+  if (!Number.isFinite(retryMaxDelay) || retryMaxDelay < retryDelay) {
+    throw new Error(`Invalid retry max delay [${argv['retry-max-delay']}]. Use a number of seconds, at least the retry delay`);
+  }
+
+  // 0 means no limit
+  const maxConcurrent = Number(argv['max-concurrent']);
+  if (!Number.isInteger(maxConcurrent) || maxConcurrent < 0) {
+    throw new Error(`Invalid max concurrent calls [${argv['max-concurrent']}]. Use a whole number, or 0 for no limit`);
+  }
+
+  const maxConcurrentPerSpace = Number(argv['max-concurrent-per-space']);
+  if (!Number.isInteger(maxConcurrentPerSpace) || maxConcurrentPerSpace < 0) {
+    throw new Error(`Invalid max concurrent calls per space [${argv['max-concurrent-per-space']}]. Use a whole number, or 0 for no limit`);
+  }
+
+  // --debug is short for --log-level debug
+  const logLevel = argv['log-level'] || (argv['debug'] ? 'debug' : 'info');
+  if (!isLogLevel(logLevel)) {
+    throw new Error(`Unknown log level [${logLevel}]. Use: ${LOG_LEVELS.join(', ')}`);
+  }
+
+  const config: Config = {
     claudeDesktopMode: argv['desktop-mode'],
     workDir: path.resolve(argv['work-dir']) || process.cwd(),
     hfToken: argv['hf-token'],
     debug: argv['debug'],
+    allEndpoints: argv['all-endpoints'],
+    configFile,
     spacePaths: (() => {
       const filtered = argv._.filter(arg => arg.toString().trim().length > 0);
-      return filtered.length > 0 
+      return filtered.length > 0 || fileSpaces.length > 0
         ? filtered
         : ["evalstate/FLUX.1-schnell"];
-    })()
+    })(),
+    spaces: fileSpaces,
+    transport,
+    host: argv['host'],
+    port,
+    authToken: argv['auth-token'] || undefined,
+    sessionWorkDirs: argv['session-work-dirs'],
+    asyncJobs: argv['async-jobs'],
+    generatorResults,
+    cache: argv['cache'] && !bypassCache,
+    bypassCache,
+    cacheTtl,
+    cacheMaxSize,
+    hubUrl: argv['hub-url'].replace(/\/+$/, ''),
+    manageSpaces: argv['manage-spaces'],
+    watchConfig: argv['watch-config'],
+    connectTimeout,
+    wakeTimeout,
+    retries,
+    retryDelay,
+    retryMaxDelay,
+    maxConcurrent,
+    maxConcurrentPerSpace,
+    logLevel,
+    logFile: argv['log-file'] ? path.resolve(argv['log-file']) : undefined,
+    otlpEndpoint: argv['otlp-endpoint'] || undefined,
   };
 
-  if (config.debug) {
-    console.log('Config:', {
-      ...config,
-      hfToken: config.hfToken ? 'Token present' : 'No token',
-    });
-  }
-
-  try {
-    mkdirSync(config.workDir, { recursive: true });
-  } catch (error) {
-    console.warn(`Could not create working directory ${config.workDir}, using current directory`);
-    config.workDir = process.cwd();
-  }
-
   return config;
 }
\ No newline at end of file
@@ -5,11 +5,19 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { ApiReturn } from "./gradio_api.js";
 import * as fs from "fs/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
 import { pathToFileURL } from "url";
 import path from "path";
 import { config } from "./config.js";
 import { EndpointPath } from "./endpoint_wrapper.js";
 import { WorkingDirectory } from "./working_directory.js";
+import { latestAssistantMessage } from "./conversations.js";
+import { withRetry } from "./retry.js";
+import { classifyGradioError, isRetryableError } from "./gradio_errors.js";
+import { createLogger } from "./logger.js";
+import { withSpan } from "./tracing.js";
+
+const log = createLogger("content_converter");
 
 // Add types for Gradio component values
 interface GradioResourceValue {
@@ -22,9 +30,15 @@ interface GradioResourceValue {
 enum GradioComponentType {
   Image = "Image",
   Audio = "Audio",
-  Chatbot = "Chatbot"
+  Chatbot = "Chatbot",
+  Video = "Video",
+  Model3D = "Model3D",
+  File = "File",
+  Gallery = "Gallery"
 }
 
+type ConvertedContent = TextContent | ImageContent | EmbeddedResource;
+
 // Resource response interface
 interface ResourceResponse {
   mimeType: string;
@@ -33,30 +47,35 @@ interface ResourceResponse {
   originalExtension: string | null;
 }
 
-// Simple converter registry
+// Simple converter registry. Converters may return several items, e.g. one per Gallery image
 type ContentConverter = (
   component: ApiReturn,
   value: GradioResourceValue,
   endpointPath: EndpointPath
-) => Promise<TextContent | ImageContent | EmbeddedResource>;
+) => Promise<ConvertedContent | ConvertedContent[]>;
 
 // Type for converter functions that may not succeed
 type ConverterFn = (
   component: ApiReturn,
   value: GradioResourceValue,
   endpointPath: EndpointPath
-) => Promise<TextContent | ImageContent | EmbeddedResource | null>;
+) => Promise<ConvertedContent | ConvertedContent[] | null>;
 // Default converter implementation
 const defaultConverter: ConverterFn = async () => null;
 
 export class GradioConverter {
   private converters: Map<string, ContentConverter> = new Map();
-  
+  private readonly savedFiles: string[] = [];
+
   constructor(private readonly workingDir: WorkingDirectory) {
     // Register converters with fallback behavior
     this.register(GradioComponentType.Image, withFallback(this.imageConverter.bind(this)));
     this.register(GradioComponentType.Audio, withFallback(this.audioConverter.bind(this)));
-    this.register(GradioComponentType.Chatbot, withFallback(async () => null));
+    this.register(GradioComponentType.Chatbot, withFallback(this.chatbotConverter));
+    this.register(GradioComponentType.Video, withFallback(this.videoConverter.bind(this)));
+    this.register(GradioComponentType.Model3D, withFallback(this.fileConverter.bind(this)));
+    this.register(GradioComponentType.File, withFallback(this.fileConverter.bind(this)));
+    this.register(GradioComponentType.Gallery, withFallback(this.galleryConverter.bind(this)));
   }
 
   register(component: string, converter: ContentConverter) {
@@ -67,13 +86,12 @@ export class GradioConverter {
     component: ApiReturn,
     value: GradioResourceValue,
     endpointPath: EndpointPath
-  ): Promise<TextContent | ImageContent | EmbeddedResource> {
-    if (config.debug) {
-      await fs.writeFile(generateFilename("debug","json",endpointPath.mcpToolName), JSON.stringify(value,null,2));
-    }
+  ): Promise<ConvertedContent[]> {
+    log.debug(`Converting ${component.component} output`, { value });
     const converter = this.converters.get(component.component) ||
       withFallback(defaultConverter);
-    return converter(component, value, endpointPath);
+    const converted = await converter(component, value, endpointPath);
+    return Array.isArray(converted) ? converted : [converted];
   }
 
   private async saveFile(
@@ -86,9 +104,43 @@ export class GradioConverter {
     const extension = originalExtension || mimeType.split("/")[1] || "bin";
     const filename = await this.workingDir.generateFilename(prefix, extension, mcpToolName);
     await this.workingDir.saveFile(arrayBuffer, filename);
+    this.savedFiles.push(filename);
     return filename;
   }
 
+  // Stream a file output into the working directory, without holding it in memory
+  private async downloadFile(
+    value: GradioResourceValue,
+    prefix: string,
+    mcpToolName: string
+  ): Promise<{ filename: string; mimeType: string }> {
+    const url = value.url!;
+    return withSpan("output_download", { "url.full": url }, async (span) => {
+      const response = await fetchResource(url);
+      const mimeType = determineMimeType(value, response.headers);
+      const extension = getExtensionFromFilename(url) || mimeType.split("/")[1] || "bin";
+      const filename = await this.workingDir.generateFilename(prefix, extension, mcpToolName);
+      const size = await this.workingDir.saveStream(
+        response.body as WebReadableStream<Uint8Array>,
+        filename
+      );
+      this.savedFiles.push(filename);
+      span.setAttribute("http.response.body.size", size);
+      return { filename, mimeType };
+    });
+  }
+
+  // Files written to the working directory by this converter
+  get files(): readonly string[] {
+    return this.savedFiles;
+  }
+
+  // Remove the files saved by this converter, e.g. when a request is cancelled
+  async removeSavedFiles(): Promise<void> {
+    const files = this.savedFiles.splice(0);
+    await Promise.all(files.map((file) => fs.rm(file, { force: true })));
+  }
+
   private readonly imageConverter: ConverterFn = async (_component, value, endpointPath) => {
     if (!value?.url) return null;
     try {
@@ -104,7 +156,10 @@ export class GradioConverter {
         );
       } catch (saveError) {
         if (config.claudeDesktopMode) {
-          console.error(`Failed to save image file: ${saveError instanceof Error ? saveError.message : String(saveError)}`);
+          log.warning("Failed to save image file", {
+            tool: endpointPath.mcpToolName,
+            error: saveError,
+          });
         } else {
           throw saveError;
         }
@@ -116,7 +171,11 @@ export class GradioConverter {
         mimeType: response.mimeType,
       };
     } catch (error) {
-      console.error("Image conversion failed:", error);
+      log.warning("Image conversion failed", {
+        tool: endpointPath.mcpToolName,
+        url: value.url,
+        error,
+      });
       return createTextContent(_component, `Failed to load image: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
@@ -147,13 +206,92 @@ export class GradioConverter {
         };
       }
     } catch (error) {
-      console.error("Audio conversion failed:", error);
+      log.warning("Audio conversion failed", {
+        tool: endpointPath.mcpToolName,
+        url: value.url,
+        error,
+      });
       return {
         type: "text",
         text: `Failed to load audio: ${(error as Error).message}`,
       };
     }
   };
+
+  // Only the newest assistant message is shown; the history is kept by the endpoint
+  private readonly chatbotConverter: ConverterFn = async (component, value) => {
+    const message = latestAssistantMessage(value);
+    if (message === undefined || message === null) return null;
+    return createTextContent(component, message);
+  };
+
+  // Video outputs are either a file or { video, subtitles }
+  private readonly videoConverter: ConverterFn = async (component, value, endpointPath) => {
+    const video = (value as { video?: GradioResourceValue })?.video ?? value;
+    if (!isFileValue(video)) return null;
+    return this.resourceLink(component, video, GradioComponentType.Video, endpointPath);
+  };
+
+  // File and Model3D outputs, which may be a single file or a list of files
+  private readonly fileConverter: ConverterFn = async (component, value, endpointPath) => {
+    const files = (Array.isArray(value) ? value : [value]).filter(isFileValue);
+    if (files.length === 0) return null;
+    const results: ConvertedContent[] = [];
+    for (const file of files) {
+      results.push(await this.resourceLink(component, file, component.component, endpointPath));
+    }
+    return results;
+  };
+
+  // Each Gallery item becomes an image, or a resource link for other media
+  private readonly galleryConverter: ConverterFn = async (component, value, endpointPath) => {
+    if (!Array.isArray(value)) return null;
+    const results: ConvertedContent[] = [];
+    for (const item of value as GalleryItem[]) {
+      const { file, caption } = galleryItemFile(item);
+      if (!file) continue;
+
+      const mimeType = file.mime_type || (file.orig_name && getMimeTypeFromOriginalName(file.orig_name));
+      const isImage = !mimeType || mimeType.startsWith("image/");
+      const converted = isImage
+        ? await this.imageConverter(component, file, endpointPath)
+        : await this.resourceLink(component, file, GradioComponentType.Gallery, endpointPath);
+      if (converted) results.push(...(Array.isArray(converted) ? converted : [converted]));
+      if (caption) results.push({ type: "text", text: caption });
+    }
+    return results.length > 0 ? results : null;
+  };
+
+  // Download a file output into the working directory and return a link to it
+  private async resourceLink(
+    component: ApiReturn,
+    value: GradioResourceValue,
+    prefix: string,
+    endpointPath: EndpointPath
+  ): Promise<ConvertedContent> {
+    try {
+      const { filename, mimeType } = await this.downloadFile(
+        value,
+        prefix,
+        endpointPath.mcpToolName
+      );
+      return {
+        type: "resource",
+        resource: {
+          uri: `${pathToFileURL(path.resolve(filename)).href}`,
+          mimeType: "text/plain",
+          text: `Your ${prefix.toLowerCase()} output (${mimeType}) was saved to ${path.resolve(filename)}`,
+        },
+      };
+    } catch (error) {
+      log.warning(`${prefix} conversion failed`, {
+        tool: endpointPath.mcpToolName,
+        url: value.url,
+        error,
+      });
+      return createTextContent(component, `Failed to load ${prefix.toLowerCase()}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 }
 
 // Shared text content creator
@@ -166,6 +304,24 @@ const createTextContent = (component: ApiReturn, value: any): TextContent => {
   };
 };
 
+// Gallery items are { image | video, caption }, [file, caption] or a file
+type GalleryItem =
+  | { image?: GradioResourceValue; video?: GradioResourceValue; caption?: string | null }
+  | [GradioResourceValue, string | null]
+  | GradioResourceValue;
+
+const galleryItemFile = (
+  item: GalleryItem
+): { file?: GradioResourceValue; caption?: string | null } => {
+  if (Array.isArray(item)) return { file: item[0], caption: item[1] };
+  if (isFileValue(item)) return { file: item };
+  const media = item as { image?: GradioResourceValue; video?: GradioResourceValue; caption?: string | null };
+  return { file: media.image ?? media.video, caption: media.caption };
+};
+
+const isFileValue = (value: unknown): value is GradioResourceValue =>
+  typeof value === "object" && value !== null && typeof (value as GradioResourceValue).url === "string";
+
 // Wrapper that adds fallback behavior
 const withFallback = (converter: ConverterFn): ContentConverter => {
   return async (component: ApiReturn, value: GradioResourceValue, endpointPath: EndpointPath) => {
@@ -174,17 +330,6 @@ const withFallback = (converter: ConverterFn): ContentConverter => {
   };
 };
 
-// Update generateFilename to use space name
-const generateFilename = (
-  prefix: string,
-  extension: string,
-  mcpToolName: string
-): string => {
-  const date = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
-  const randomId = crypto.randomUUID().slice(0, 5); // First 5 chars
-  return `${date}_${mcpToolName}_${prefix}_${randomId}.${extension}`;
-};
-
 const getExtensionFromFilename = (url: string): string | null => {
   const match = url.match(/\/([^/?#]+)[^/]*$/);
   if (match && match[1].includes('.')) {
@@ -206,6 +351,17 @@ const getMimeTypeFromOriginalName = (origName: string): string | null => {
   if (['mp3', 'wav', 'ogg', 'aac', 'm4a'].includes(extension)) {
     return `audio/${extension}`;
   }
+
+  // Common video formats
+  if (['mp4', 'webm', 'ogv'].includes(extension)) {
+    return `video/${extension === 'ogv' ? 'ogg' : extension}`;
+  }
+  if (extension === 'mov') return 'video/quicktime';
+
+  // Common 3D model formats
+  if (extension === 'glb') return 'model/gltf-binary';
+  if (extension === 'gltf') return 'model/gltf+json';
+  if (['obj', 'stl'].includes(extension)) return `model/${extension}`;
   
   // For unknown types, fall back to application/*
   return `application/${extension}`;
@@ -237,24 +393,52 @@ const determineMimeType = (value: any, responseHeaders: Headers): string => {
 
 type HeaderMap = Record<string, string>;
 
-const convertUrlToBase64 = async (url: string, value: GradioResourceValue): Promise<ResourceResponse> => {
+// Only send the Hugging Face token to Hugging Face hosts, not self-hosted apps
+const isHuggingFaceUrl = (url: string): boolean => {
+  try {
+    const { hostname } = new URL(url);
+    return hostname === "huggingface.co" || hostname.endsWith(".hf.space");
+  } catch {
+    return false;
+  }
+};
+
+// Fetch an output file. Server errors and dropped connections are retried with backoff
+const fetchResource = async (url: string): Promise<Response> => {
   const headers: HeaderMap = {};
-  if (config.hfToken) {
+  if (config.hfToken && isHuggingFaceUrl(url)) {
     headers["Authorization"] = `Bearer ${config.hfToken}`;
   }
 
-  const response = await fetch(url, { headers });
-  
-  if (!response.ok) {
-    throw new Error(
-      `Failed to fetch resource: ${response.status} ${response.statusText}`
-    );
-  }
+  return withRetry(
+    async () => {
+      const response = await fetch(url, { headers });
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch resource: ${response.status} ${response.statusText}`
+        );
+      }
+      return response;
+    },
+    {
+      shouldRetry: (error) =>
+        isRetryableError(
+          classifyGradioError(error instanceof Error ? error.message : String(error))
+        ),
+    }
+  );
+};
 
-  const mimeType = determineMimeType(value, response.headers);
-  const originalExtension = getExtensionFromFilename(url);
-  const arrayBuffer = await response.arrayBuffer();
-  const base64Data = Buffer.from(arrayBuffer).toString("base64");
-  
-  return { mimeType, base64Data, arrayBuffer, originalExtension };
+// Download an output that is also returned inline, i.e. an image or audio
+const convertUrlToBase64 = async (url: string, value: GradioResourceValue): Promise<ResourceResponse> => {
+  return withSpan("output_download", { "url.full": url }, async (span) => {
+    const response = await fetchResource(url);
+    const mimeType = determineMimeType(value, response.headers);
+    const originalExtension = getExtensionFromFilename(url);
+    const arrayBuffer = await response.arrayBuffer();
+    const base64Data = Buffer.from(arrayBuffer).toString("base64");
+    span.setAttribute("http.response.body.size", arrayBuffer.byteLength);
+
+    return { mimeType, base64Data, arrayBuffer, originalExtension };
+  });
 };
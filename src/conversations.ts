@@ -0,0 +1,174 @@
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const CHAT_CONVERSATIONS = "chat-conversations";
+export const CHAT_RESET = "chat-reset";
+
+export const DEFAULT_CONVERSATION_ID = "default";
+
+// Conversations kept per chat endpoint before the least recently used are dropped
+const MAX_CONVERSATIONS = 100;
+
+/** Chat message in Gradio's "messages" format */
+interface ChatMessage {
+  role: "user" | "assistant" | "system";
+  content: unknown;
+}
+
+/** Chat history in either Gradio's "messages" or "tuples" format */
+export type ChatHistory = ChatMessage[] | [unknown, unknown][];
+
+/**
+ * Conversation history for a chat endpoint, keyed by session and conversation
+ * ID, so that history is passed back to the space automatically on the next
+ * call. Sessions of the HTTP transport never see each other's conversations;
+ * the stdio session has no session ID.
+ */
+export class ConversationStore {
+  private conversations = new Map<
+    string,
+    { session?: string; conversationId: string; history: ChatHistory }
+  >();
+
+  get(conversationId: string, session?: string): ChatHistory {
+    return this.conversations.get(conversationKey(conversationId, session))?.history ?? [];
+  }
+
+  set(conversationId: string, history: ChatHistory, session?: string) {
+    // Re-insert so the Map stays in least recently used order
+    const key = conversationKey(conversationId, session);
+    this.conversations.delete(key);
+    this.conversations.set(key, { session, conversationId, history });
+    if (this.conversations.size > MAX_CONVERSATIONS) {
+      const [oldest] = this.conversations.keys();
+      this.conversations.delete(oldest);
+    }
+  }
+
+  delete(conversationId: string, session?: string): boolean {
+    return this.conversations.delete(conversationKey(conversationId, session));
+  }
+
+  // Remove every conversation of the session
+  clear(session?: string) {
+    for (const [key, conversation] of this.conversations) {
+      if (conversation.session === session) this.conversations.delete(key);
+    }
+  }
+
+  list(session?: string): { conversationId: string; turns: number }[] {
+    return [...this.conversations.values()]
+      .filter((conversation) => conversation.session === session)
+      .map(({ conversationId, history }) => ({
+        conversationId,
+        turns: countTurns(history),
+      }));
+  }
+}
+
+function conversationKey(conversationId: string, session?: string): string {
+  return JSON.stringify([session ?? null, conversationId]);
+}
+
+/** Append a user message and assistant reply in the same format as the history */
+export function appendTurn(
+  history: ChatHistory,
+  userMessage: unknown,
+  assistantMessage: unknown
+): ChatHistory {
+  if (history.length > 0 && !Array.isArray(history[0])) {
+    return [
+      ...(history as ChatMessage[]),
+      { role: "user", content: userMessage },
+      { role: "assistant", content: assistantMessage },
+    ];
+  }
+  return [...(history as [unknown, unknown][]), [userMessage, assistantMessage]];
+}
+
+/** The newest assistant message of a Chatbot value, in either format */
+export function latestAssistantMessage(value: unknown): unknown {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+
+  for (let index = value.length - 1; index >= 0; index--) {
+    const item = value[index];
+    if (Array.isArray(item)) {
+      return item[1];
+    }
+    if (item && typeof item === "object" && (item as ChatMessage).role === "assistant") {
+      return (item as ChatMessage).content;
+    }
+  }
+  return undefined;
+}
+
+function countTurns(history: ChatHistory): number {
+  if (history.length > 0 && !Array.isArray(history[0])) {
+    return (history as ChatMessage[]).filter((message) => message.role === "assistant").length;
+  }
+  return history.length;
+}
+
+/** Definitions of the conversation management tools */
+export function conversationToolDefinitions(): Tool[] {
+  return [
+    {
+      name: CHAT_CONVERSATIONS,
+      description: "List the conversations held with chat tools, with the number of turns in each.",
+      inputSchema: { type: "object", properties: {} },
+    },
+    {
+      name: CHAT_RESET,
+      description:
+        "Reset a conversation held with a chat tool, so that the next message starts a new conversation. " +
+        "Omit conversation_id to reset every conversation of the tool, and omit tool to reset all conversations.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          tool: { type: "string", description: "Name of the chat tool" },
+          conversation_id: { type: "string", description: "The conversation to reset" },
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * Handle the conversation management tools for the chat endpoints by tool
+ * name. Only the conversations of the calling session are listed or reset.
+ */
+export function callConversationTool(
+  name: string,
+  args: Record<string, unknown>,
+  stores: Map<string, ConversationStore>,
+  session?: string
+): CallToolResult {
+  if (name === CHAT_CONVERSATIONS) {
+    const rows = [...stores.entries()].flatMap(([tool, store]) =>
+      store.list(session).map(({ conversationId, turns }) => `| ${tool} | ${conversationId} | ${turns} |`)
+    );
+    const text =
+      rows.length === 0
+        ? "No conversations."
+        : ["| Tool | Conversation ID | Turns |", "|------|-----------------|-------|", ...rows].join("\n");
+    return { content: [{ type: "text", text }] };
+  }
+
+  const tool = typeof args.tool === "string" ? args.tool : undefined;
+  const conversationId =
+    typeof args.conversation_id === "string" ? args.conversation_id : undefined;
+  if (tool && !stores.has(tool)) {
+    return { content: [{ type: "text", text: `Unknown chat tool: ${tool}` }], isError: true };
+  }
+
+  let reset = 0;
+  for (const [storeTool, store] of stores) {
+    if (tool && storeTool !== tool) continue;
+    if (conversationId) {
+      if (store.delete(conversationId, session)) reset++;
+    } else {
+      reset += store.list(session).length;
+      store.clear(session);
+    }
+  }
+  return { content: [{ type: "text", text: `Reset ${reset} conversation(s).` }] };
+}
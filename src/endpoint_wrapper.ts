@@ -1,10 +1,12 @@
-import { Client, handle_file } from "@gradio/client";
-import { ApiStructure, ApiEndpoint, ApiReturn } from "./gradio_api.js";
-import { convertApiToSchema, isFileParameter } from "./gradio_convert.js";
+import { handle_file } from "@gradio/client";
+import { ApiStructure, ApiEndpoint } from "./gradio_api.js";
+import {
+  convertApiToSchema,
+  isFileParameter,
+  parameterPropertyNames,
+} from "./gradio_convert.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import * as fs from "fs/promises";
-import { ReadableStream, TransformStream } from "node:stream/web";
-import * as path from "path";
+import { promises as fs } from "fs";
 import type { StatusMessage, Payload } from "@gradio/client";
 import type {
   CallToolResult,
@@ -20,20 +22,41 @@ import { config } from "./config.js";
 import { WorkingDirectory } from "./working_directory.js";
 import { createProgressNotifier } from "./progress_notifier.js";
 import { GradioConverter } from "./content_converter.js";
-
-type GradioEvent = StatusMessage | Payload;
-
-interface SpaceRuntimeStatus {
-  stage: string;
-  sdk?: string;
-  hardware?: string;
-  resources?: Record<string, unknown>;
-  // Add other fields as needed
-}
+import { applyArgumentOverrides, type ToolOverrides } from "./space_config.js";
+import { hashFile, ResultCache, resultCacheKey } from "./result_cache.js";
+import { SpaceConnection } from "./space_connection.js";
+import type { ApiSchemaCache } from "./api_cache.js";
+import {
+  submitWithFallback,
+  type FallbackSubmission,
+  type SpaceBackend,
+} from "./space_fallback.js";
+import { retrySubmission, type RetriedSubmission } from "./retry.js";
+import { classifyGradioError, GradioCallError } from "./gradio_errors.js";
+import type { CallMeasurement, DailyCap } from "./usage_tracker.js";
+import { validateArguments } from "./argument_validation.js";
+import { parameterForProperty, toGradioData } from "./parameter_mapping.js";
+import { createLogger } from "./logger.js";
+import { JobSpans } from "./tracing.js";
+import {
+  appendTurn,
+  ConversationStore,
+  DEFAULT_CONVERSATION_ID,
+} from "./conversations.js";
+
+const log = createLogger("endpoint_wrapper");
+
+export type GradioEvent = StatusMessage | Payload;
+
+export type GradioSubmission = AsyncIterable<GradioEvent> & {
+  cancel: () => Promise<void>;
+};
 
 export interface EndpointPath {
   owner: string;
   space: string;
+  // Space name ("owner/space") or URL of the Gradio app
+  reference: string;
   endpoint: string | number;
   mcpToolName: string;
   mcpDisplayName: string;
@@ -53,182 +76,337 @@ export function parsePath(path: string): EndpointPath {
   return {
     owner,
     space,
-    endpoint: isNaN(Number(rawEndpoint))
-      ? `/${rawEndpoint}`
-      : parseInt(rawEndpoint),
+    reference: `${owner}/${space}`,
+    endpoint: parseEndpoint(rawEndpoint),
     mcpToolName: formatMcpToolName(space, rawEndpoint),
     mcpDisplayName: formatMcpDisplayName(space, rawEndpoint),
   };
+}
+
+// Helper function to parse "http(s)://host:port/endpoint" for self-hosted apps
+export function parseUrlPath(urlPath: string): EndpointPath {
+  const { appUrl, rawEndpoint } = splitUrlPath(urlPath);
+  if (!rawEndpoint) {
+    throw new Error(
+      `Invalid Endpoint URL format [${urlPath}]. Use http(s)://host:port/endpoint`
+    );
+  }
+
+  const url = new URL(appUrl);
+  return {
+    owner: url.hostname,
+    space: url.host,
+    reference: appUrl,
+    endpoint: parseEndpoint(rawEndpoint),
+    mcpToolName: formatMcpToolName(url.host, rawEndpoint),
+    mcpDisplayName: formatMcpDisplayName(appUrl, rawEndpoint),
+  };
+}
+
+export function isUrlPath(path: string): boolean {
+  return /^https?:\/\//i.test(path);
+}
 
-  function formatMcpToolName(space: string, endpoint: string | number) {
-    return `${space}-${endpoint}`
-      .replace(/[^a-zA-Z0-9_-]/g, "_")
-      .slice(0, 64);
+// Split a URL into the Gradio app URL and the endpoint (the last path segment).
+// A trailing slash means no endpoint was given.
+function splitUrlPath(urlPath: string): { appUrl: string; rawEndpoint?: string } {
+  const url = new URL(urlPath);
+  const segments = url.pathname.split("/");
+  const rawEndpoint = segments.pop() || undefined;
+  url.pathname = `${segments.join("/")}/`;
+  url.search = "";
+  url.hash = "";
+  return { appUrl: url.href, rawEndpoint };
+}
+
+function parseEndpoint(rawEndpoint: string): string | number {
+  return isNaN(Number(rawEndpoint)) ? `/${rawEndpoint}` : parseInt(rawEndpoint);
+}
+
+function formatMcpToolName(space: string, endpoint: string | number) {
+  return `${space}-${endpoint}`.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+}
+
+function formatMcpDisplayName(space: string, endpoint: string | number) {
+  return `${space} endpoint /${endpoint}`;
+}
+
+// True when the path names an endpoint, e.g. "owner/space/endpoint"
+export function endpointSpecified(path: string): boolean {
+  if (isUrlPath(path)) {
+    return splitUrlPath(path).rawEndpoint !== undefined;
   }
+  return path.replace(/^\//, "").split("/").length === 3;
+}
+
+// True when the path requests every endpoint of a space, e.g. "owner/space/*"
+export function isAllEndpointsPath(path: string): boolean {
+  return path.endsWith("/*");
+}
 
-  function formatMcpDisplayName(space: string, endpoint: string | number) {
-    return `${space} endpoint /${endpoint}`;
+// Make a tool name unique against those already taken, keeping it within
+// the 64 character limit
+export function uniqueToolName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  for (let counter = 2; ; counter++) {
+    const suffix = `_${counter}`;
+    const candidate = `${name.slice(0, 64 - suffix.length)}${suffix}`;
+    if (!taken.has(candidate)) return candidate;
   }
 }
 
+function isValidUnnamedEndpoint(endpoint: ApiEndpoint): boolean {
+  return endpoint.parameters.length > 0 && endpoint.returns.length > 0;
+}
+
+// A space on the Hub ("vendor/space") or a self-hosted Gradio app URL
+interface SpaceTarget {
+  // Space name or URL passed to Client.connect
+  reference: string;
+  isUrl: boolean;
+  // Requested endpoint without leading slash, "*" for all endpoints
+  rawEndpoint?: string;
+  endpointPath(rawEndpoint: string): EndpointPath;
+}
+
+function resolveSpaceTarget(configuredPath: string): SpaceTarget {
+  if (isUrlPath(configuredPath)) {
+    const { appUrl, rawEndpoint } = splitUrlPath(configuredPath);
+    return {
+      reference: appUrl,
+      isUrl: true,
+      rawEndpoint,
+      endpointPath: (endpoint) => parseUrlPath(`${appUrl}${endpoint}`),
+    };
+  }
+
+  const pathParts = configuredPath.replace(/^\//, "").split("/");
+  if (pathParts.length < 2 || pathParts.length > 3) {
+    throw new Error(
+      `Invalid space path format [${configuredPath}]. Use: vendor/space, vendor/space/endpoint or a Gradio app URL`
+    );
+  }
+  const spaceName = `${pathParts[0]}/${pathParts[1]}`;
+  return {
+    reference: spaceName,
+    isUrl: false,
+    rawEndpoint: pathParts[2] || undefined,
+    endpointPath: (endpoint) => parsePath(`${spaceName}/${endpoint}`),
+  };
+}
+
+// The space name ("vendor/space") or Gradio app URL of a configured path,
+// without its endpoint
+export function spaceReference(configuredPath: string): string {
+  return resolveSpaceTarget(configuredPath).reference;
+}
+
+// Select the configured endpoint, or the most suitable one if none was given.
+// Returns the endpoint name without leading slash (or the unnamed index).
+function selectEndpoint(
+  rawEndpoint: string | undefined,
+  api: ApiStructure
+): [string, ApiEndpoint] | undefined {
+  if (rawEndpoint) {
+    const named = api.named_endpoints?.[`/${rawEndpoint}`];
+    if (named) return [rawEndpoint, named];
+    const unnamed = api.unnamed_endpoints?.[rawEndpoint];
+    if (unnamed) return [rawEndpoint, unnamed];
+    throw new Error(
+      `Endpoint /${rawEndpoint} not found. Available endpoints: ${
+        Object.keys(api.named_endpoints ?? {}).join(", ") || "none"
+      }`
+    );
+  }
+
+  // Check some common endpoint names
+  const preferredApis = [
+    "/predict",
+    "/infer",
+    "/generate",
+    "/complete",
+    "/model_chat",
+    "/lambda",
+    "/generate_image",
+    "/process_prompt",
+    "/on_submit",
+    "/add_text",
+  ];
+  const namedMatch = preferredApis.find((p) => api.named_endpoints?.[p]);
+  if (namedMatch) {
+    return [namedMatch.slice(1), api.named_endpoints[namedMatch]];
+  }
+
+  // If no named endpoints matched, pick the first named or first valid unnamed
+  const [firstNamedKey, firstNamedVal] =
+    Object.entries(api.named_endpoints ?? {})[0] ?? [];
+  if (firstNamedKey && firstNamedVal) {
+    return [firstNamedKey.replace(/^\//, ""), firstNamedVal];
+  }
+
+  return Object.entries(api.unnamed_endpoints ?? {}).find(([_, ep]) =>
+    isValidUnnamedEndpoint(ep)
+  );
+}
+
+export interface ToolCallOptions {
+  workingDir?: WorkingDirectory;
+  signal?: AbortSignal;
+  conversationId?: string;
+  // The HTTP session making the call, which holds its own conversations
+  session?: string;
+  // Collects the paths of output files saved to the working directory
+  savedFiles?: string[];
+  // Told of status and data events, to record queue time
+  usage?: CallMeasurement;
+}
+
+// Tool argument identifying the conversation for chat endpoints
+const CONVERSATION_ID = "conversation_id";
+
+// Load a fallback space when first needed, retrying on the next call if it
+// failed. Without an endpoint in its path, the primary's endpoint is used if
+// the space has one.
+function fallbackBackend(
+  configuredPath: string,
+  primaryEndpoint: string,
+  apiCache?: ApiSchemaCache
+): () => Promise<SpaceBackend> {
+  let backend: Promise<SpaceBackend> | undefined;
+  const load = async (): Promise<SpaceBackend> => {
+    const target = resolveSpaceTarget(configuredPath);
+    const connection = new SpaceConnection(target.reference, target.isUrl, apiCache);
+    const api = await connection.api();
+    const hasPrimaryEndpoint =
+      api.named_endpoints?.[`/${primaryEndpoint}`] !== undefined ||
+      api.unnamed_endpoints?.[primaryEndpoint] !== undefined;
+    const selected = selectEndpoint(
+      target.rawEndpoint ?? (hasPrimaryEndpoint ? primaryEndpoint : undefined),
+      api
+    );
+    if (!selected) {
+      throw new Error(`No valid endpoints found for ${configuredPath}`);
+    }
+    const endpointPath = target.endpointPath(selected[0]);
+    return {
+      name: endpointPath.mcpDisplayName,
+      connection,
+      endpoint: endpointPath.endpoint,
+      schema: selected[1],
+    };
+  };
+  return () => {
+    backend ??= load().catch((error) => {
+      backend = undefined;
+      throw error;
+    });
+    return backend;
+  };
+}
+
 export class EndpointWrapper {
-  private converter: GradioConverter;
+  // Conversation history, for endpoints that take a Chatbot history input
+  readonly conversations?: ConversationStore;
+  // Equivalent spaces tried in order when this one fails
+  private fallbacks: (() => Promise<SpaceBackend>)[] = [];
 
   constructor(
     private endpointPath: EndpointPath,
     private endpoint: ApiEndpoint,
-    private client: Client,
-    private workingDir: WorkingDirectory
+    private connection: Pick<SpaceConnection, "submit">,
+    private workingDir: WorkingDirectory,
+    private overrides: ToolOverrides = {}
   ) {
-    this.converter = new GradioConverter(workingDir);
+    if (this.chatHistoryName()) {
+      this.conversations = new ConversationStore();
+    }
   }
 
-  // Create a new EndpointWrapper by connecting to the space’s Gradio app
+  // Create a new EndpointWrapper from the API of the space’s Gradio app.
+  // The client connects on the first call if the API was cached.
   static async createEndpoint(
     configuredPath: string,
-    workingDir: WorkingDirectory
+    workingDir: WorkingDirectory,
+    overrides: ToolOverrides = {},
+    apiCache?: ApiSchemaCache
   ): Promise<EndpointWrapper> {
-    const pathParts = configuredPath.split("/");
-    if (pathParts.length < 2 || pathParts.length > 3) {
-      throw new Error(
-        `Invalid space path format [${configuredPath}]. Use: vendor/space or vendor/space/endpoint`
-      );
-    }
+    const target = resolveSpaceTarget(configuredPath);
+    const connection = new SpaceConnection(target.reference, target.isUrl, apiCache);
+    const api = await connection.api();
 
-    const spaceName = `${pathParts[0]}/${pathParts[1]}`;
-    const endpointTarget = pathParts[2] ? `/${pathParts[2]}` : undefined;
+    const selected = selectEndpoint(target.rawEndpoint, api);
+    if (!selected) {
+      throw new Error(`No valid endpoints found for ${configuredPath}`);
+    }
 
-    try {
-      // 1) Check space metadata
-      if (config.debug) {
-        console.error(`[DEBUG] Checking space metadata for ${spaceName}...`);
-      }
-      const headers: Record<string, string> = {
-        Accept: "application/json",
-      };
-      if (config.hfToken) {
-        headers["Authorization"] = `Bearer ${config.hfToken}`;
-      }
+    const [rawEndpoint, endpoint] = selected;
+    const endpointPath = target.endpointPath(rawEndpoint);
+    if (overrides.toolName) {
+      endpointPath.mcpToolName = overrides.toolName;
+    }
+    const wrapper = new EndpointWrapper(
+      endpointPath,
+      endpoint,
+      connection,
+      workingDir,
+      overrides
+    );
+    wrapper.fallbacks = (overrides.fallbacks ?? []).map((path) =>
+      fallbackBackend(path, rawEndpoint, apiCache)
+    );
+    return wrapper;
+  }
 
-      const metadataRes = await fetch(
-        `https://huggingface.co/api/spaces/${spaceName}`,
-        { headers }
+  // Create one EndpointWrapper per named endpoint (and per valid unnamed
+  // endpoint) of a space, all sharing a single Gradio client connection.
+  static async createEndpoints(
+    configuredPath: string,
+    workingDir: WorkingDirectory,
+    apiCache?: ApiSchemaCache
+  ): Promise<EndpointWrapper[]> {
+    const target = resolveSpaceTarget(configuredPath);
+    if (target.rawEndpoint && target.rawEndpoint !== "*") {
+      throw new Error(
+        `Invalid space path format [${configuredPath}]. Use: vendor/space/*`
       );
-      if (!metadataRes.ok) {
-        if (config.debug) {
-          console.error(
-            `[DEBUG] Metadata check failed:`,
-            metadataRes.status,
-            metadataRes.statusText
-          );
-          const text = await metadataRes.text();
-          console.error(`[DEBUG] Response body:`, text);
-        }
-        throw new Error(
-          `Space ${spaceName} is not accessible (HTTP ${metadataRes.status})`
-        );
-      }
-
-      if (config.debug) {
-        console.error(`[DEBUG] Connecting to Gradio client for ${spaceName}...`);
-      }
-
-      // 2) Connect to Gradio client
-      // We do NOT pass in a custom fetch or streams. We rely on Node’s built-in fetch & streams in Node 18+
-      const gradioClient = await Client.connect(spaceName, {
-        hf_token: config.hfToken,
-        max_retries: 5,
-        timeout: 600_000,
-        verbose: config.debug,
-      });
-
-      // 3) Retrieve Gradio API structure
-      const api = (await gradioClient.view_api()) as ApiStructure;
-      if (!api || (!api.named_endpoints && !api.unnamed_endpoints)) {
-        throw new Error(`No endpoints found in space ${spaceName}`);
-      }
-
-      // 4) Select the endpoint
-      if (endpointTarget && api.named_endpoints[endpointTarget]) {
-        return new EndpointWrapper(
-          parsePath(configuredPath),
-          api.named_endpoints[endpointTarget],
-          gradioClient,
-          workingDir
-        );
-      }
+    }
 
-      // Check some common endpoint names
-      const preferredApis = [
-        "/predict",
-        "/infer",
-        "/generate",
-        "/complete",
-        "/model_chat",
-        "/lambda",
-        "/generate_image",
-        "/process_prompt",
-        "/on_submit",
-        "/add_text",
-      ];
-      const namedMatch = preferredApis.find((p) => api.named_endpoints[p]);
-      if (namedMatch) {
-        return new EndpointWrapper(
-          parsePath(`${configuredPath}${namedMatch}`),
-          api.named_endpoints[namedMatch],
-          gradioClient,
-          workingDir
-        );
-      }
+    const connection = new SpaceConnection(target.reference, target.isUrl, apiCache);
+    const api = await connection.api();
 
-      // If no named endpoints matched, pick the first named or first valid unnamed
-      const [firstNamedKey, firstNamedVal] =
-        Object.entries(api.named_endpoints)[0] ?? [];
-      if (firstNamedKey && firstNamedVal) {
-        return new EndpointWrapper(
-          parsePath(`${configuredPath}${firstNamedKey}`),
-          firstNamedVal,
-          gradioClient,
-          workingDir
-        );
-      }
+    const toolNames = new Set<string>();
+    const wrap = (rawEndpoint: string, endpoint: ApiEndpoint) => {
+      const endpointPath = target.endpointPath(rawEndpoint);
+      endpointPath.mcpToolName = uniqueToolName(
+        endpointPath.mcpToolName,
+        toolNames
+      );
+      toolNames.add(endpointPath.mcpToolName);
+      return new EndpointWrapper(endpointPath, endpoint, connection, workingDir);
+    };
 
-      const [validUnnamedKey, validUnnamedVal] =
-        Object.entries(api.unnamed_endpoints).find(
-          ([_, ep]) => ep.parameters.length > 0 && ep.returns.length > 0
-        ) ?? [];
-      if (validUnnamedKey && validUnnamedVal) {
-        return new EndpointWrapper(
-          parsePath(`${configuredPath}/${validUnnamedKey}`),
-          validUnnamedVal,
-          gradioClient,
-          workingDir
-        );
-      }
+    const wrappers = [
+      ...Object.entries(api.named_endpoints ?? {}).map(([name, endpoint]) =>
+        wrap(name.replace(/^\//, ""), endpoint)
+      ),
+      ...Object.entries(api.unnamed_endpoints ?? {})
+        .filter(([_, endpoint]) => isValidUnnamedEndpoint(endpoint))
+        .map(([index, endpoint]) => wrap(index, endpoint)),
+    ];
 
+    if (wrappers.length === 0) {
       throw new Error(`No valid endpoints found for ${configuredPath}`);
-    } catch (error) {
-      const errMsg = error instanceof Error ? error.message : String(error);
-      if (config.debug) {
-        console.error(`[DEBUG] Error connecting to space ${spaceName}:`, error);
-      }
-      throw new Error(
-        `Failed to connect to space ${spaceName}: ${errMsg}\n` +
-          `Make sure:\n` +
-          `1. The space exists and is public (check https://huggingface.co/spaces/${spaceName})\n` +
-          `2. Your HF_TOKEN is valid (if the space is private)\n` +
-          `3. The space is running (not sleeping or failed)\n` +
-          `4. The space has a valid Gradio API endpoint\n` +
-          `5. You have permission to access the space\n\n` +
-          `Try visiting the space in your browser first to ensure it's running.`
-      );
     }
+    return wrappers;
   }
 
   /* Endpoint Wrapper methods remain the same */
 
-  async validatePath(filePath: string): Promise<string> {
-    return this.workingDir.validatePath(filePath);
+  async validatePath(
+    filePath: string,
+    workingDir: WorkingDirectory = this.workingDir
+  ): Promise<string> {
+    return workingDir.validatePath(filePath);
   }
 
   promptName() {
@@ -239,56 +417,242 @@ export class EndpointWrapper {
     return this.endpointPath.mcpDisplayName;
   }
 
+  // Limits on the use of this tool per day, from the configuration file
+  dailyCap(): DailyCap | undefined {
+    return this.overrides.dailyCap;
+  }
+
+  // True if calls should run as background jobs
+  isAsync(): boolean {
+    return this.overrides.async ?? config.asyncJobs;
+  }
+
   toolDefinition() {
+    const description =
+      this.overrides.description ?? `Call the ${this.mcpDescriptionName()}`;
     return {
       name: this.endpointPath.mcpToolName,
-      description: `Call the ${this.mcpDescriptionName()}`,
-      inputSchema: convertApiToSchema(this.endpoint),
+      description: this.isAsync()
+        ? `${description}. Runs as a background job and returns a job ID: use job-status and job-result to follow it.`
+        : description,
+      inputSchema: this.inputSchema(),
     };
   }
 
-  async call(request: CallToolRequest, server: Server): Promise<CallToolResult> {
+  async call(
+    request: CallToolRequest,
+    server: Server,
+    options: ToolCallOptions = {}
+  ): Promise<CallToolResult> {
     const progressToken = request.params._meta?.progressToken as
       | string
       | number
       | undefined;
 
-    const parameters = request.params.arguments as Record<string, any>;
-    const endpointParams = this.endpoint.parameters;
+    const { args, conversationId } = this.takeConversationId(
+      this.validateArguments(request.params.arguments ?? {})
+    );
+    const workingDir = options.workingDir ?? this.workingDir;
+
+    const cache = this.resultCache(workingDir);
+    const cacheKey = cache ? await this.cacheKey(args, workingDir) : undefined;
+    const cached = cacheKey ? await cache!.get(cacheKey) : undefined;
+    if (cached) return cached;
+
+    const parameters = await this.prepareParameters(
+      args,
+      workingDir,
+      conversationId,
+      options.session
+    );
+
+    const normalizedToken =
+      typeof progressToken === "number" ? progressToken.toString() : progressToken;
+
+    const savedFiles: string[] = [];
+    const result = await this.handleToolCall(parameters, normalizedToken, server, {
+      ...options,
+      conversationId,
+      savedFiles,
+    });
+    options.usage?.saved(savedFiles);
+    if (cacheKey) {
+      // A failure to write the cache should not fail the call
+      await cache!
+        .set(cacheKey, this.mcpDescriptionName(), result, savedFiles)
+        .catch(() => undefined);
+    }
+    return result;
+  }
+
+  // True if results of identical calls are reused. Chat endpoints are never cached
+  cachesResults(): boolean {
+    if (config.bypassCache || this.conversations) return false;
+    return this.overrides.cache ?? config.cache;
+  }
+
+  private resultCache(workingDir: WorkingDirectory): ResultCache | undefined {
+    if (!this.cachesResults()) return undefined;
+    return new ResultCache(workingDir.stateDirectory("results"), {
+      ttlSeconds: config.cacheTtl,
+      maxSizeBytes: config.cacheMaxSize * 1024 * 1024,
+    });
+  }
 
-    // Convert file paths to file handles
+  // Identify a call by space, endpoint and arguments, hashing the content of
+  // input files
+  private async cacheKey(
+    args: Record<string, unknown>,
+    workingDir: WorkingDirectory
+  ): Promise<string> {
+    const parameters = applyArgumentOverrides(args, this.overrides);
     for (const [key, value] of Object.entries(parameters)) {
-      const param = endpointParams.find(
-        (p) => p.parameter_name === key || p.label === key
+      const param = parameterForProperty(this.endpoint, key);
+      if (param && isFileParameter(param) && typeof value === "string") {
+        const file = await this.validatePath(value, workingDir);
+        parameters[key] = isUrlPath(file) ? file : await hashFile(file);
+      }
+    }
+    return resultCacheKey({
+      space: this.endpointPath.reference,
+      endpoint: this.endpointPath.endpoint,
+      parameters,
+    });
+  }
+
+  // Check arguments against the input schema before calling the space,
+  // coercing them where safe and filling in defaults
+  validateArguments(args: Record<string, unknown>): Record<string, unknown> {
+    const { values, errors } = validateArguments(args, this.inputSchema());
+    if (errors.length > 0) {
+      throw new GradioCallError(
+        `Invalid arguments for ${this.endpointPath.mcpToolName}:\n${errors.map((error) => `- ${error}`).join("\n")}`,
+        0,
+        "invalid_arguments"
       );
+    }
+    return values;
+  }
+
+  // Separate the conversation ID from the arguments of a chat endpoint
+  takeConversationId(args: Record<string, unknown>): {
+    args: Record<string, unknown>;
+    conversationId?: string;
+  } {
+    if (!this.conversations) return { args };
+    const { [CONVERSATION_ID]: conversationId, ...rest } = args;
+    return {
+      args: rest,
+      conversationId:
+        typeof conversationId === "string" && conversationId
+          ? conversationId
+          : DEFAULT_CONVERSATION_ID,
+    };
+  }
+
+  // Apply the configured overrides, convert file paths to file handles and
+  // add the conversation history for chat endpoints
+  async prepareParameters(
+    args: Record<string, unknown>,
+    workingDir: WorkingDirectory = this.workingDir,
+    conversationId?: string,
+    session?: string
+  ): Promise<Record<string, unknown>> {
+    const parameters = applyArgumentOverrides(args, this.overrides);
+    const historyName = this.chatHistoryName();
+    if (this.conversations && historyName && conversationId) {
+      parameters[historyName] = this.conversations.get(conversationId, session);
+    }
+    for (const [key, value] of Object.entries(parameters)) {
+      const param = parameterForProperty(this.endpoint, key);
       if (param && isFileParameter(param) && typeof value === "string") {
-        const file = await this.validatePath(value);
+        const file = await this.validatePath(value, workingDir);
         parameters[key] = handle_file(file);
       }
     }
+    return parameters;
+  }
 
-    const normalizedToken =
-      typeof progressToken === "number" ? progressToken.toString() : progressToken;
-
-    return this.handleToolCall(parameters, normalizedToken, server);
+  // onProgress is told the space's stage while it is woken from sleep, of
+  // each failed space when fallbacks are configured, and of retries
+  submit(
+    parameters: Record<string, unknown>,
+    onProgress?: (message: string) => void
+  ): RetriedSubmission {
+    return retrySubmission(() => this.submitToSpaces(parameters, onProgress), {
+      onRetry: (message, retry, delayMs) =>
+        onProgress?.(
+          `${message}. Retrying in ${delayMs / 1000}s (retry ${retry} of ${config.retries})`
+        ),
+    });
   }
 
-  async handleToolCall(
+  private submitToSpaces(
     parameters: Record<string, unknown>,
-    progressToken: string | undefined,
-    server: Server
-  ): Promise<CallToolResult> {
-    const events: unknown[] = [];
-    try {
-      let result = null;
-      const submission = this.client.submit(
+    onProgress?: (message: string) => void
+  ): FallbackSubmission {
+    if (this.fallbacks.length === 0) {
+      return this.connection.submit(
         this.endpointPath.endpoint,
-        parameters
-      ) as AsyncIterable<GradioEvent>;
-      const progressNotifier = createProgressNotifier(server);
+        toGradioData(this.endpoint, parameters),
+        onProgress
+      );
+    }
+    const primary: SpaceBackend = {
+      name: this.mcpDescriptionName(),
+      connection: this.connection,
+      endpoint: this.endpointPath.endpoint,
+      schema: this.endpoint,
+    };
+    return submitWithFallback(
+      [async () => primary, ...this.fallbacks],
+      parameters,
+      onProgress
+    );
+  }
 
+  // Name the space that served the call in the result's _meta, with a note
+  // when it was a fallback. Outputs are converted using this endpoint's
+  // schema, so fallbacks should return equivalent outputs.
+  reportBackend(
+    result: CallToolResult,
+    submission: FallbackSubmission
+  ): CallToolResult {
+    const { servedBy } = submission;
+    if (!servedBy) return result;
+    const content: CallToolResult["content"] =
+      servedBy === this.mcpDescriptionName()
+        ? result.content
+        : [
+            { type: "text", text: `Served by fallback space ${servedBy}` },
+            ...result.content,
+          ];
+    return { ...result, content, _meta: { ...result._meta, servedBy } };
+  }
+
+  // Read the submission's events until it completes, returning the output data.
+  // Aborting the signal cancels the Gradio job.
+  async collectResult(
+    submission: GradioSubmission,
+    options: {
+      onStatus: (status: StatusMessage) => Promise<void>;
+      // Called with each data message, e.g. the values yielded by a generator
+      onData?: (data: any[]) => Promise<void>;
+      signal?: AbortSignal;
+    }
+  ): Promise<any[]> {
+    const { onStatus, onData, signal } = options;
+    const onAbort = () => {
+      submission.cancel().catch(() => undefined);
+    };
+    signal?.throwIfAborted();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      let result = null;
       for await (const msg of submission) {
-        if (config.debug) events.push(msg);
+        if (signal?.aborted) break;
+        log.debug(`${this.endpointPath.mcpToolName} ${msg.type} event`, { event: msg });
         if (msg.type === "data") {
           if (Array.isArray(msg.data)) {
             // Check which item has non-object data
@@ -297,56 +661,253 @@ export class EndpointWrapper {
             );
             if (hasContent) result = msg.data;
             if (result === null) result = msg.data;
+            await onData?.(msg.data);
           }
         } else if (msg.type === "status") {
           if (msg.stage === "error") {
             throw new Error(`Gradio error: ${msg.message || "Unknown error"}`);
           }
-          if (progressToken) await progressNotifier.notify(msg, progressToken);
+          await onStatus(msg);
         }
       }
 
+      if (signal?.aborted) {
+        throw new Error("Request cancelled by the client");
+      }
       if (!result) {
         throw new Error("No data received from endpoint");
       }
+      return result;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
 
-      return await this.convertPredictResults(
-        this.endpoint.returns,
-        result,
-        this.endpointPath
+  // Store the updated history of a chat endpoint: the returned Chatbot value,
+  // or the user message and text reply appended to the previous history
+  rememberConversation(
+    conversationId: string | undefined,
+    parameters: Record<string, unknown>,
+    result: any[],
+    session?: string
+  ) {
+    if (!this.conversations || !conversationId) return;
+
+    const chatbotIndex = this.endpoint.returns.findIndex(
+      (output) => output.component === "Chatbot"
+    );
+    if (chatbotIndex >= 0 && Array.isArray(result[chatbotIndex])) {
+      this.conversations.set(conversationId, result[chatbotIndex], session);
+      return;
+    }
+
+    const propertyNames = parameterPropertyNames(this.endpoint);
+    const messageIndex = this.endpoint.parameters.findIndex(
+      (param) =>
+        param.component === "Textbox" || param.component === "MultimodalTextbox"
+    );
+    const reply = result.find((value) => typeof value === "string");
+    if (messageIndex >= 0 && reply !== undefined) {
+      this.conversations.set(
+        conversationId,
+        appendTurn(
+          this.conversations.get(conversationId, session),
+          parameters[propertyNames[messageIndex]],
+          reply
+        ),
+        session
       );
+    }
+  }
+
+  // Name of the Chatbot history parameter, if this is a chat endpoint
+  private chatHistoryName(): string | undefined {
+    const index = this.endpoint.parameters.findIndex(
+      (param) => param.component === "Chatbot"
+    );
+    return index >= 0 ? parameterPropertyNames(this.endpoint)[index] : undefined;
+  }
+
+  // The tool input schema. Chat endpoints take a conversation ID instead of the history
+  private inputSchema() {
+    const historyName = this.chatHistoryName();
+    if (!historyName) {
+      return convertApiToSchema(this.endpoint, this.overrides);
+    }
+
+    const schema = convertApiToSchema(this.endpoint, {
+      ...this.overrides,
+      hidden: [...(this.overrides.hidden ?? []), historyName],
+    });
+    schema.properties[CONVERSATION_ID] = {
+      type: "string",
+      description:
+        "Identifies the conversation. History is kept between calls with the same ID, use a new ID to start a new conversation",
+      default: DEFAULT_CONVERSATION_ID,
+    };
+    return schema;
+  }
+
+  // True if the endpoint streams intermediate results
+  isGenerator(): boolean {
+    return this.endpoint.type?.generator ?? false;
+  }
+
+  // True if every value yielded by a generator endpoint should be returned
+  returnsAllGeneratorResults(): boolean {
+    return (
+      this.isGenerator() &&
+      (this.overrides.generatorResults ?? config.generatorResults) === "all"
+    );
+  }
+
+  // True if the space advertises cancellation support for this endpoint
+  supportsCancel(): boolean {
+    return this.endpoint.type?.cancel ?? false;
+  }
+
+  async handleToolCall(
+    parameters: Record<string, unknown>,
+    progressToken: string | undefined,
+    server: Server,
+    options: ToolCallOptions = {}
+  ): Promise<CallToolResult> {
+    const {
+      workingDir = this.workingDir,
+      signal,
+      conversationId,
+      session,
+      savedFiles,
+      usage,
+    } = options;
+    const yielded: any[][] = [];
+    let submission: RetriedSubmission | undefined;
+    let spans: JobSpans | undefined;
+    try {
+      const progressNotifier = createProgressNotifier(server);
+      const onMessage = progressToken
+        ? (message: string) => {
+            if (signal?.aborted) return;
+            progressNotifier
+              .notifyMessage(message, progressToken)
+              .catch(() => undefined);
+          }
+        : undefined;
+      submission = this.submit(parameters, onMessage);
+      spans = new JobSpans();
+      const result = await this.collectResult(submission, {
+        onStatus: async (status) => {
+          usage?.status(status);
+          spans?.status(status);
+          if (progressToken && !signal?.aborted) {
+            await progressNotifier.notify(status, progressToken);
+          }
+        },
+        onData: async (data) => {
+          usage?.data();
+          spans?.data();
+          if (!this.isGenerator()) return;
+          yielded.push(data);
+          if (progressToken && !signal?.aborted) {
+            await progressNotifier.notifyPartial(data, progressToken);
+          }
+        },
+        signal,
+      });
+      spans.end();
+
+      this.rememberConversation(conversationId, parameters, result, session);
+
+      const converted =
+        this.returnsAllGeneratorResults() && yielded.length > 1
+          ? await this.convertGeneratorResults(
+              yielded,
+              workingDir,
+              signal,
+              savedFiles
+            )
+          : await this.convertPredictResults(
+              result,
+              workingDir,
+              signal,
+              savedFiles
+            );
+      return this.reportBackend(converted, submission);
     } catch (err) {
+      spans?.end(err);
       const errMsg = err instanceof Error ? err.message : String(err);
-      throw new Error(`Error calling endpoint: ${errMsg}`);
-    } finally {
-      // Save debug info if we have any
-      if (config.debug && events.length > 0) {
-        const traceFile = `${this.endpointPath.mcpToolName}_status_${crypto
-          .randomUUID()
-          .substring(0, 5)}.json`;
-        await fs.writeFile(traceFile, JSON.stringify(events, null, 2));
-      }
+      throw new GradioCallError(
+        `Error calling endpoint: ${errMsg}`,
+        submission?.attempts || 1,
+        classifyGradioError(errMsg)
+      );
     }
   }
 
-  private async convertPredictResults(
-    returns: ApiReturn[],
+  async convertPredictResults(
     predictResults: any[],
-    endpointPath: EndpointPath
+    workingDir: WorkingDirectory = this.workingDir,
+    signal?: AbortSignal,
+    savedFiles?: string[]
   ): Promise<CallToolResult> {
+    const converter = new GradioConverter(workingDir);
     const content: (TextContent | ImageContent | EmbeddedResource)[] = [];
-    for (const [index, output] of returns.entries()) {
+    for (const [index, output] of this.endpoint.returns.entries()) {
       const value = predictResults[index];
-      const converted = await this.converter.convert(output, value, endpointPath);
-      content.push(converted);
+      const converted = await converter.convert(
+        output,
+        value,
+        this.endpointPath
+      );
+      content.push(...converted);
+
+      // Don't leave partial output behind for a cancelled request
+      if (signal?.aborted) {
+        await converter.removeSavedFiles();
+        throw new Error("Request cancelled by the client");
+      }
+    }
+    savedFiles?.push(...converter.files);
+    return { content, isError: false };
+  }
+
+  // Convert every value yielded by a generator, labelling each in turn
+  private async convertGeneratorResults(
+    yielded: any[][],
+    workingDir: WorkingDirectory,
+    signal?: AbortSignal,
+    savedFiles?: string[]
+  ): Promise<CallToolResult> {
+    const content: CallToolResult["content"] = [];
+    const files: string[] = [];
+    try {
+      for (const [index, data] of yielded.entries()) {
+        const converted = await this.convertPredictResults(
+          data,
+          workingDir,
+          signal,
+          files
+        );
+        content.push(
+          { type: "text", text: `Result ${index + 1} of ${yielded.length}` },
+          ...converted.content
+        );
+      }
+    } catch (error) {
+      // Don't leave the files of earlier values behind for a cancelled request
+      if (signal?.aborted) {
+        await Promise.all(files.map((file) => fs.rm(file, { force: true })));
+      }
+      throw error;
     }
+    savedFiles?.push(...files);
     return { content, isError: false };
   }
 
   async getPromptTemplate(
     args?: Record<string, string>
   ): Promise<GetPromptResult> {
-    const schema = convertApiToSchema(this.endpoint);
+    const schema = this.inputSchema();
     let promptText = `Using the ${this.mcpDescriptionName()}:\n\n`;
 
     promptText += Object.entries(schema.properties)
@@ -374,7 +935,7 @@ export class EndpointWrapper {
     return {
       name: this.endpointPath.mcpToolName,
       description: `Use the ${this.mcpDescriptionName()}.`,
-      arguments: Object.keys(convertApiToSchema(this.endpoint).properties),
+      arguments: Object.keys(this.inputSchema().properties),
     };
     }
 }
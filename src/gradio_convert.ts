@@ -1,5 +1,9 @@
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 import type { ApiEndpoint, ApiParameter } from "./gradio_api.js";
+import { isHiddenParameter, type ToolOverrides } from "./space_config.js";
+import { parsePythonType, type JsonSchema } from "./python_type.js";
+
+const JSON_SCHEMA_TYPES = ["string", "number", "integer", "boolean", "array", "object"];
 
 // Type for a parameter schema in MCP Tool
 type ParameterSchema = Tool["inputSchema"]["properties"];
@@ -34,19 +38,16 @@ export function isFileParameter(param: ApiParameter): boolean {
 }
 
 export function convertParameter(param: ApiParameter): ParameterSchema {
-  // Start with determining the base type and description
-  let baseType = param.type || "string";
   let baseDescription = param.python_type?.description || param.label || undefined;
+  let typeSchema: JsonSchema;
 
   // Special case for chat history - override type and description
   if (param.parameter_name === "history" && param.component === "Chatbot") {
-    baseType = "array";
+    typeSchema = { type: "array" };
     baseDescription = "Chat history as an array of message pairs. Each pair is [user_message, assistant_message] where messages can be text strings or null. Advanced: messages can also be file references or UI components.";
-  }
-
-  // Handle file types with specific descriptions
-  if (isFileParameter(param)) {
-    baseType = "string"; // Always string for file inputs
+  } else if (isFileParameter(param)) {
+    // Handle file types with specific descriptions
+    typeSchema = { type: "string" }; // Always string for file inputs
     if (param.component === "Audio") {
       baseDescription = "Accepts: Audio file URL, file path, file name, or resource identifier";
     } else if (param.component === "Image") {
@@ -54,10 +55,12 @@ export function convertParameter(param: ApiParameter): ParameterSchema {
     } else {
       baseDescription = "Accepts: URL, file path, file name, or resource identifier";
     }
+  } else {
+    typeSchema = parsePythonType(param.python_type?.type ?? "") ?? fallbackSchema(param);
   }
 
   const baseSchema = {
-    type: baseType,
+    ...typeSchema,
     description: baseDescription,
     ...(param.parameter_has_default && {
       default: param.parameter_default,
@@ -68,41 +71,59 @@ export function convertParameter(param: ApiParameter): ParameterSchema {
   };
 
   // Add number constraints if it's a number type 
-  if (param.type === "number" && param.python_type?.description) {
+  if (
+    (typeSchema.type === "number" || typeSchema.type === "integer") &&
+    param.python_type?.description
+  ) {
     const constraints = parseNumberConstraints(param.python_type.description);
     return { ...baseSchema, ...constraints };
   }
 
-  // Handle Literal type to extract enum values
-  if (param.python_type?.type?.startsWith("Literal[")) {
-    const enumValues = param.python_type.type
-      .slice(8, -1) // Remove "Literal[" and "]"
-      .split(",")
-      .map(value => value.trim().replace(/['"]/g, "")); // Remove quotes and trim spaces
-    return { ...baseSchema, description: param.python_type?.description || param.label || undefined, enum: enumValues };
-  }
-
   return baseSchema;
 }
 
+// The JavaScript type from view_api, for python types that cannot be parsed
+function fallbackSchema(param: ApiParameter): JsonSchema {
+  return JSON_SCHEMA_TYPES.includes(param.type) ? { type: param.type } : {};
+}
+
+// Get property names from parameter_name, label, or generate one. Repeated
+// names, e.g. two parameters labelled "Image", are numbered to keep them apart
+export function parameterPropertyNames(endpoint: ApiEndpoint): string[] {
+  let propertyCounter = 1;
+  const names = endpoint.parameters.map(
+    (param) =>
+      param.parameter_name || param.label || `Unnamed Parameter ${propertyCounter++}`
+  );
+  return names.map((name, index) => {
+    const repeat = names.slice(0, index).filter((other) => other === name).length;
+    return repeat === 0 ? name : `${name}_${repeat + 1}`;
+  });
+}
 
-export function convertApiToSchema(endpoint: ApiEndpoint) {
+export function convertApiToSchema(
+  endpoint: ApiEndpoint,
+  overrides: ToolOverrides = {}
+) {
   const properties: { [key: string]: any } = {};
   const required: string[] = [];
-  let propertyCounter = 1;
-  const unnamedParameters: Record<string, number> = {};
+  const propertyNames = parameterPropertyNames(endpoint);
 
   endpoint.parameters.forEach((param: ApiParameter, index: number) => {
-    // Get property name from parameter_name, label, or generate one
-    const propertyName = param.parameter_name || param.label || `Unnamed Parameter ${propertyCounter++}`;
-    if (!param.parameter_name) {
-      unnamedParameters[propertyName] = index;
-    }
+    const propertyName = propertyNames[index];
+    if (isHiddenParameter(propertyName, overrides)) return;
+
     // Convert parameter using existing function
     properties[propertyName] = convertParameter(param);
 
+    const hasDefaultOverride =
+      overrides.defaults !== undefined && propertyName in overrides.defaults;
+    if (hasDefaultOverride) {
+      properties[propertyName].default = overrides.defaults![propertyName];
+    }
+
     // Add to required if no default value
-    if (!param.parameter_has_default) {
+    if (!param.parameter_has_default && !hasDefaultOverride) {
       required.push(propertyName);
     }
   });
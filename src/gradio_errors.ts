@@ -0,0 +1,134 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Kinds of failure reported by spaces:
+ * - queue_full: the space's queue is full or it is rate limiting
+ * - quota: ZeroGPU or other usage quota exceeded
+ * - unavailable: the space is not running (sleeping, paused, building or errored)
+ * - timeout: the space did not respond in time
+ * - server_error: a 5xx response, e.g. when fetching an output file
+ * - connection: the connection to the space was lost
+ * - cancelled: the client cancelled the call
+ * - app: the app itself raised an error, e.g. for invalid input
+ * - invalid_arguments: the arguments did not match the tool's input schema,
+ *   so the space was not called
+ */
+export type GradioErrorKind =
+  | "queue_full"
+  | "quota"
+  | "unavailable"
+  | "timeout"
+  | "server_error"
+  | "connection"
+  | "cancelled"
+  | "app"
+  | "invalid_arguments";
+
+const ERROR_PATTERNS: [GradioErrorKind, RegExp][] = [
+  ["cancelled", /cancelled by the client/i],
+  ["quota", /quota|exceeded your gpu|zerogpu|gpu task aborted/i],
+  ["queue_full", /queue is full|too many requests|rate limit|\b429\b/i],
+  // Messages of space_runtime and the Gradio client, and runtime stage values
+  [
+    "unavailable",
+    /is not running|has been paused|space is asleep|is still [A-Z_]+ after|failed to build|misconfigured|not accessible|not found on the hub|private or gated/i,
+  ],
+  ["unavailable", /\b(?:SLEEPING|PAUSED|STOPPED|BUILDING|BUILD_ERROR|CONFIG_ERROR|RUNTIME_ERROR|NO_APP_FILE)\b/],
+  ["timeout", /timed? ?out|timeout|ETIMEDOUT/i],
+  [
+    "server_error",
+    /(?:status|HTTP|resource:)\s*5\d\d\b|internal server error|bad gateway|service unavailable/i,
+  ],
+  // Messages of the Gradio client, undici and space_connection
+  [
+    "connection",
+    /connection errored out|could not resolve app config|could not get api info|space metadata could not be loaded|fetch failed|socket hang up|other side closed|could not be reached|failed to connect to gradio app|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN/i,
+  ],
+];
+
+// Codes reported to clients in the _meta of failed tool results
+const ERROR_CODES: Record<GradioErrorKind, string> = {
+  queue_full: "QUEUE_FULL",
+  quota: "QUOTA_EXCEEDED",
+  unavailable: "SPACE_UNAVAILABLE",
+  timeout: "TIMEOUT",
+  server_error: "SERVER_ERROR",
+  connection: "CONNECTION_ERROR",
+  cancelled: "CANCELLED",
+  app: "APP_ERROR",
+  invalid_arguments: "INVALID_ARGUMENTS",
+};
+
+const RETRYABLE_KINDS: GradioErrorKind[] = [
+  "queue_full",
+  "timeout",
+  "server_error",
+  "connection",
+];
+
+export function classifyGradioError(message: string | undefined): GradioErrorKind {
+  if (!message) return "app";
+  return ERROR_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? "app";
+}
+
+/** Errors that another replica of the space may not have */
+export function isFallbackError(kind: GradioErrorKind): boolean {
+  return kind !== "app" && kind !== "cancelled" && kind !== "invalid_arguments";
+}
+
+/** Transient errors, worth trying again after a delay */
+export function isRetryableError(kind: GradioErrorKind): boolean {
+  return RETRYABLE_KINDS.includes(kind);
+}
+
+/** A failed call to a space, classified, with the number of attempts made */
+export class GradioCallError extends Error {
+  readonly kind: GradioErrorKind;
+
+  constructor(
+    message: string,
+    readonly attempts = 1,
+    kind?: GradioErrorKind
+  ) {
+    super(message);
+    this.name = "GradioCallError";
+    this.kind = kind ?? classifyGradioError(message);
+  }
+
+  get code(): string {
+    return ERROR_CODES[this.kind];
+  }
+
+  get retryable(): boolean {
+    return isRetryableError(this.kind);
+  }
+}
+
+/**
+ * The _meta of a failed tool result: the error code, and whether trying again
+ * later may succeed.
+ */
+export function errorMeta(error: Error) {
+  const callError =
+    error instanceof GradioCallError ? error : new GradioCallError(error.message);
+  return {
+    error: {
+      code: callError.code,
+      retryable: callError.retryable,
+      attempts: callError.attempts,
+    },
+  };
+}
+
+export function toolErrorResult(error: Error): CallToolResult {
+  return {
+    content: [{ type: "text", text: `mcp-hfspace error: ${error.message}` }],
+    isError: true,
+    _meta: errorMeta(error),
+  };
+}
+
+/** A tool result holding a single text message */
+export function textResult(text: string, isError = false): CallToolResult {
+  return { content: [{ type: "text", text }], isError };
+}
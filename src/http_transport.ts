@@ -0,0 +1,105 @@
+import http, { IncomingMessage } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { createLogger, withLogSession } from "./logger.js";
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+
+const log = createLogger("http_transport");
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** When set, requests must supply "Authorization: Bearer <token>" */
+  authToken?: string;
+}
+
+export interface HttpSession {
+  id: string;
+  /** Workspace requested by the client with the "workspace" query parameter */
+  workspace?: string;
+}
+
+/**
+ * Serve MCP over HTTP using Server-Sent Events. Each client opens an SSE
+ * stream with GET /sse, and posts its messages to /messages?sessionId=...
+ * Every session gets its own Server instance from createSession.
+ */
+export async function startHttpServer(
+  options: HttpTransportOptions,
+  createSession: (session: HttpSession) => Promise<Server>
+): Promise<http.Server> {
+  const transports = new Map<string, SSEServerTransport>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+      if (!isAuthorized(req, options.authToken)) {
+        res
+          .writeHead(401, { "WWW-Authenticate": "Bearer" })
+          .end("Unauthorized");
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = await createSession({
+          id: transport.sessionId,
+          workspace: url.searchParams.get("workspace") ?? undefined,
+        });
+        transports.set(transport.sessionId, transport);
+        // Keep the session's own close handler
+        const onclose = server.onclose;
+        server.onclose = () => {
+          transports.delete(transport.sessionId);
+          onclose?.();
+        };
+        await server.connect(transport);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        const transport = transports.get(url.searchParams.get("sessionId") ?? "");
+        if (!transport) {
+          res.writeHead(404).end("Unknown session");
+          return;
+        }
+        // Entries logged while handling the message only go to this session
+        await withLogSession(transport.sessionId, () =>
+          transport.handlePostMessage(req, res)
+        );
+        return;
+      }
+
+      res.writeHead(404).end("Not found");
+    } catch (error) {
+      log.error("HTTP transport error", { error });
+      if (!res.headersSent) {
+        res.writeHead(500).end("Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  return httpServer;
+}
+
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) return true;
+
+  const header = req.headers.authorization ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const expected = Buffer.from(authToken);
+  const supplied = Buffer.from(match[1].trim());
+  return (
+    expected.length === supplied.length && timingSafeEqual(expected, supplied)
+  );
+}
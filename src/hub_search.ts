@@ -0,0 +1,233 @@
+import { Client } from "@gradio/client";
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ApiStructure } from "./gradio_api.js";
+
+export const SEARCH_SPACES = "search-spaces";
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+// Spaces fetched from the Hub per result, since SDK, stage and likes are filtered here
+const CANDIDATES_PER_RESULT = 5;
+// Time allowed to read the API of each candidate space
+const ENDPOINT_SUMMARY_TIMEOUT = 15_000;
+
+export interface HubSearchOptions {
+  hubUrl: string;
+  hfToken?: string;
+}
+
+/** A space as returned by the Hub spaces API */
+interface HubSpace {
+  id: string;
+  likes?: number;
+  sdk?: string;
+  tags?: string[];
+  runtime?: { stage?: string; hardware?: { current?: string | null } };
+}
+
+interface SearchArgs {
+  query?: string;
+  task?: string;
+  stage: string;
+  minLikes: number;
+  limit: number;
+  includeEndpoints: boolean;
+}
+
+export function searchSpacesToolDefinition(): Tool {
+  return {
+    name: SEARCH_SPACES,
+    description:
+      "Search Hugging Face for Gradio spaces that could be used as tools. " +
+      "Returns candidate spaces, most liked first, with their likes, runtime stage and API endpoints.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Text to search for in the space name" },
+        task: {
+          type: "string",
+          description: "Task tag to filter by, e.g. text-to-image or automatic-speech-recognition",
+        },
+        stage: {
+          type: "string",
+          description: "Runtime stage the space must be in. Use 'any' to include sleeping or paused spaces",
+          default: "RUNNING",
+        },
+        min_likes: { type: "number", description: "Minimum number of likes", default: 0 },
+        limit: {
+          type: "number",
+          description: `Maximum number of spaces to return (up to ${MAX_LIMIT})`,
+          default: DEFAULT_LIMIT,
+        },
+        include_endpoints: {
+          type: "boolean",
+          description: "Connect to each space to summarize its API endpoints",
+          default: true,
+        },
+      },
+    },
+  };
+}
+
+export async function searchSpaces(
+  args: Record<string, unknown>,
+  options: HubSearchOptions
+): Promise<CallToolResult> {
+  const search = parseSearchArgs(args);
+  let found: HubSpace[];
+  try {
+    found = await fetchSpaces(search, options);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: "text", text: message }], isError: true };
+  }
+
+  const spaces = found
+    .filter((space) => space.sdk === "gradio")
+    .filter((space) => (space.likes ?? 0) >= search.minLikes)
+    .filter(
+      (space) =>
+        search.stage.toLowerCase() === "any" ||
+        space.runtime?.stage?.toUpperCase() === search.stage.toUpperCase()
+    )
+    .slice(0, search.limit);
+
+  if (spaces.length === 0) {
+    return { content: [{ type: "text", text: "No matching Gradio spaces found." }] };
+  }
+
+  const summaries = await Promise.all(
+    spaces.map(async (space) => {
+      // Reading the API of a sleeping space would wake it
+      const endpoints = !search.includeEndpoints
+        ? undefined
+        : isRunning(space)
+          ? await summarizeEndpoints(space.id, options)
+          : "not read, the space is not running";
+      return describeSpace(space, endpoints);
+    })
+  );
+  return { content: [{ type: "text", text: summaries.join("\n\n") }] };
+}
+
+function parseSearchArgs(args: Record<string, unknown>): SearchArgs {
+  const limit = Number(args.limit ?? DEFAULT_LIMIT);
+  return {
+    query: typeof args.query === "string" && args.query ? args.query : undefined,
+    task: typeof args.task === "string" && args.task ? args.task : undefined,
+    stage: typeof args.stage === "string" && args.stage ? args.stage : "RUNNING",
+    minLikes: Number(args.min_likes ?? 0) || 0,
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT,
+    includeEndpoints: args.include_endpoints !== false,
+  };
+}
+
+async function fetchSpaces(
+  search: SearchArgs,
+  options: HubSearchOptions
+): Promise<HubSpace[]> {
+  const url = new URL(`${options.hubUrl}/api/spaces`);
+  if (search.query) url.searchParams.set("search", search.query);
+  if (search.task) url.searchParams.set("filter", search.task);
+  url.searchParams.set("sort", "likes");
+  url.searchParams.set("direction", "-1");
+  url.searchParams.set("limit", String(search.limit * CANDIDATES_PER_RESULT));
+  for (const field of ["sdk", "likes", "runtime", "tags"]) {
+    url.searchParams.append("expand[]", field);
+  }
+
+  const response = await fetch(url, { headers: hubHeaders(options) });
+  if (!response.ok) {
+    throw new Error(`Space search failed (HTTP ${response.status})`);
+  }
+  return (await response.json()) as HubSpace[];
+}
+
+function hubHeaders(options: HubSearchOptions): Record<string, string> {
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (options.hfToken) {
+    headers["Authorization"] = `Bearer ${options.hfToken}`;
+  }
+  return headers;
+}
+
+function isRunning(space: HubSpace): boolean {
+  return space.runtime?.stage?.toUpperCase() === "RUNNING";
+}
+
+// URL of the space's Gradio app. Looked up on the configured Hub, as the
+// Gradio client would otherwise ask huggingface.co for it.
+async function spaceHost(spaceId: string, options: HubSearchOptions): Promise<string> {
+  const response = await fetch(`${options.hubUrl}/api/spaces/${spaceId}/host`, {
+    headers: hubHeaders(options),
+  });
+  if (!response.ok) {
+    throw new Error(`could not look up the host (HTTP ${response.status})`);
+  }
+  const { host } = (await response.json()) as { host?: string };
+  if (!host) {
+    throw new Error("the Hub returned no host");
+  }
+  return host;
+}
+
+// Named endpoints of a space with their parameter names, e.g. "/infer(prompt, seed)"
+async function summarizeEndpoints(
+  spaceId: string,
+  options: HubSearchOptions
+): Promise<string[] | string> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error("timed out reading the API")),
+        ENDPOINT_SUMMARY_TIMEOUT
+      );
+    });
+    // The client is closed once done, also when it connects after the timeout
+    const readApi = async () => {
+      const client = await Client.connect(await spaceHost(spaceId, options), {
+        hf_token: options.hfToken,
+      });
+      try {
+        return (await client.view_api()) as ApiStructure;
+      } finally {
+        client.close();
+      }
+    };
+    const api = await Promise.race([readApi(), timeout]);
+    return Object.entries(api.named_endpoints ?? {}).map(
+      ([name, endpoint]) =>
+        `${name}(${endpoint.parameters
+          .map((param) => param.parameter_name || param.label)
+          .join(", ")})`
+    );
+  } catch (error) {
+    return `unavailable (${error instanceof Error ? error.message : String(error)})`;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function describeSpace(space: HubSpace, endpoints?: string[] | string): string {
+  const details = [
+    `${space.likes ?? 0} likes`,
+    space.runtime?.stage ?? "unknown stage",
+    ...(space.runtime?.hardware?.current ? [space.runtime.hardware.current] : []),
+  ];
+  const lines = [`${space.id} (${details.join(", ")})`];
+  const tasks = (space.tags ?? []).filter((tag) => tag !== "gradio" && !tag.includes(":"));
+  if (tasks.length > 0) {
+    lines.push(`Tags: ${tasks.join(", ")}`);
+  }
+  if (typeof endpoints === "string") {
+    lines.push(`Endpoints: ${endpoints}`);
+  } else if (endpoints) {
+    lines.push(
+      endpoints.length > 0
+        ? `Endpoints: ${endpoints.join("; ")}`
+        : "Endpoints: none named"
+    );
+  }
+  return lines.join("\n");
+}
@@ -14,36 +14,77 @@ import {
   GetPromptRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  SetLevelRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { EndpointWrapper } from "./endpoint_wrapper.js";
 import { parseConfig } from "./config.js";
 import { WorkingDirectory } from "./working_directory.js";
+import {
+  loadConfigFile,
+  spaceConfigPath,
+  type SpaceConfig,
+} from "./space_config.js";
+import { SpaceRegistry, SPACE_STATUS } from "./space_registry.js";
+import { ApiSchemaCache } from "./api_cache.js";
+import { startHttpServer, type HttpSession } from "./http_transport.js";
+import { JobManager } from "./job_manager.js";
+import {
+  SEARCH_SPACES,
+  searchSpaces,
+  searchSpacesToolDefinition,
+} from "./hub_search.js";
+import {
+  callConversationTool,
+  CHAT_CONVERSATIONS,
+  CHAT_RESET,
+  conversationToolDefinitions,
+} from "./conversations.js";
+import { errorMeta, GradioCallError, toolErrorResult } from "./gradio_errors.js";
+import { UsageTracker, USAGE_REPORT, type DailyCap } from "./usage_tracker.js";
+import {
+  addLogSink,
+  configureLogging,
+  createLogger,
+  isAtLeast,
+  loggingMessage,
+  type LogEntry,
+  type LogSink,
+} from "./logger.js";
+import { configureTracing, withSpan } from "./tracing.js";
+import { mkdirSync, watch } from "fs";
 
-// Create MCP server
-const server = new Server(
-  {
-    name: "mcp-hfspace",
-    version: VERSION,
-  },
-  {
-    capabilities: {
-      tools: {},
-      prompts: {},
-      resources: {
-        list: true,
-      },
-    },
-  }
-);
 // Parse configuration
 const config = parseConfig();
 
+configureLogging({ level: config.logLevel, file: config.logFile });
+configureTracing({ otlpEndpoint: config.otlpEndpoint, serviceVersion: VERSION });
+const log = createLogger("server");
+
+// Warnings logged while starting, sent to each client once it has initialized
+const startupLog: LogEntry[] = [];
+const stopStartupLog = addLogSink({
+  level: "warning",
+  write: (entry) => startupLog.push(entry),
+});
+log.debug("Configuration", {
+  ...config,
+  hfToken: config.hfToken ? "Token present" : "No token",
+  authToken: config.authToken ? "Token present" : "No token",
+});
+
+// Create the configured working directory, now that warnings reach clients
+try {
+  mkdirSync(config.workDir, { recursive: true });
+} catch (error) {
+  log.warning(`Could not create working directory ${config.workDir}, using current directory`);
+  config.workDir = process.cwd();
+}
+
 // Change to configured working directory - Add error handling
 try {
   process.chdir(config.workDir);
 } catch (error) {
-  console.error(`Failed to change to working directory ${config.workDir}. Using current directory instead.`);
+  log.warning(`Failed to change to working directory ${config.workDir}. Using current directory instead.`);
   config.workDir = process.cwd(); // Use current directory as fallback
 }
 
@@ -52,177 +93,398 @@ const workingDir = new WorkingDirectory(
   config.claudeDesktopMode
 );
 
-// Create a map to store endpoints by their tool names
-const endpoints = new Map<string, EndpointWrapper>();
+// Endpoints by their tool names. Spaces can be added and removed at runtime
+const endpoints = new SpaceRegistry(
+  workingDir,
+  new ApiSchemaCache(workingDir.stateDirectory("api"))
+);
+
+// Spaces from the command line, followed by those in the configuration file
+const spaceConfigs: SpaceConfig[] = [
+  ...config.spacePaths.map((space) => ({ space })),
+  ...config.spaces,
+];
 
-// Create endpoints with working directory
-for (const spacePath of config.spacePaths) {
-  try {
-    const endpoint = await EndpointWrapper.createEndpoint(
-      spacePath,
-      workingDir
+// Load the spaces in parallel, waiting up to the timeout for each. A space
+// still connecting after its timeout is added when it is ready, and clients
+// are told that the tool list changed
+const pendingSpaces = new Set<string>();
+const loading = spaceConfigs.map(async (spaceConfig) => {
+  const spacePath = spaceConfigPath(spaceConfig);
+  const loaded = endpoints.add(spaceConfig).catch((e) => {
+    log.error(`Error loading ${spacePath}`, { space: spacePath, error: e });
+  });
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = await Promise.race([
+    loaded.then(() => false),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), config.connectTimeout * 1000);
+    }),
+  ]);
+  clearTimeout(timer);
+  if (timedOut) {
+    pendingSpaces.add(spacePath);
+    log.warning(
+      `Still connecting to ${spacePath}; its tools will be added when ready`
     );
-    endpoints.set(endpoint.toolDefinition().name, endpoint);
-  } catch (e) {
-    if (e instanceof Error) {
-      console.error(`Error loading ${spacePath}: ${e.message}`);
-    } else {
-      throw e;
-    }
-    continue;
+    loaded.finally(() => pendingSpaces.delete(spacePath));
   }
-}
+});
+await Promise.all(loading);
+
+stopStartupLog();
 
-if (endpoints.size === 0) {
+if (endpoints.size === 0 && pendingSpaces.size === 0) {
   throw new Error("No valid endpoints found in any of the provided spaces");
 }
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: AVAILABLE_FILES,
-        description:
-          "A list of available file and resources. " +
-          "If the User requests things like 'most recent image' or 'the audio' use " +
-          "this tool to identify the intended resource." +
-          "This tool returns 'resource uri', 'name', 'size', 'last modified'  and 'mime type' in a markdown table",
-        inputSchema: {
-          type: "object",
-          properties: {},
+// Background jobs, each visible only to the session that started it
+const jobs = new JobManager();
+
+// Usage of every tool, recorded in the main working directory
+const usage = new UsageTracker(workingDir);
+
+// Connected sessions, told when the tool and prompt lists change
+const servers = new Set<Server>();
+endpoints.onChange(() => {
+  for (const server of servers) {
+    Promise.all([
+      server.sendToolListChanged(),
+      server.sendPromptListChanged(),
+    ]).catch((error) =>
+      log.warning("Failed to send list changed notification", { error })
+    );
+  }
+});
+
+// Reload the spaces from the configuration file when it changes
+if (config.watchConfig && config.configFile) {
+  const configFile = config.configFile;
+  let fileSpaces = config.spaces;
+  let reloadTimer: NodeJS.Timeout | undefined;
+  watch(configFile, () => {
+    // Editors often write a file in several steps
+    clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(async () => {
+      try {
+        const current = loadConfigFile(configFile);
+        const errors = await endpoints.reload(fileSpaces, current);
+        errors.forEach((error) => log.error(error));
+        fileSpaces = current;
+      } catch (error) {
+        log.error(`Could not reload ${configFile}`, { error });
+      }
+    }, 500);
+  });
+}
+
+/**
+ * Create an MCP server for a client session. Endpoints are shared between
+ * sessions; each session has its own working directory. HTTP sessions pass
+ * their ID, which keeps their jobs and conversations apart.
+ */
+function createServer(workingDir: WorkingDirectory, sessionId?: string): Server {
+  const server = new Server(
+    {
+      name: "mcp-hfspace",
+      version: VERSION,
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        prompts: { listChanged: true },
+        resources: {
+          list: true,
         },
+        logging: {},
       },
-      ...Array.from(endpoints.values()).map((endpoint) =>
-        endpoint.toolDefinition()
-      ),
-    ],
+    }
+  );
+
+  // Send log messages to the client, at the level it sets with logging/setLevel.
+  // HTTP sessions are not sent the entries logged for other sessions
+  let initialized = false;
+  const clientLog: LogSink = {
+    level: config.logLevel,
+    session: sessionId,
+    write(entry) {
+      if (!initialized) return;
+      // Logging a failure to send would send another message
+      server.sendLoggingMessage(loggingMessage(entry)).catch(() => undefined);
+    },
+  };
+  const removeClientLog = addLogSink(clientLog);
+  server.oninitialized = () => {
+    initialized = true;
+    startupLog
+      .filter((entry) => isAtLeast(entry.level, clientLog.level))
+      .forEach((entry) => clientLog.write(entry));
   };
-});
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  if (AVAILABLE_FILES === request.params.name) {
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLog.level = request.params.level;
+    return {};
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      content: [
+      tools: [
         {
-          type: `text`,
-          text: await workingDir.generateResourceTable(),
+          name: AVAILABLE_FILES,
+          description:
+            "A list of available file and resources. " +
+            "If the User requests things like 'most recent image' or 'the audio' use " +
+            "this tool to identify the intended resource." +
+            "This tool returns 'resource uri', 'name', 'size', 'last modified'  and 'mime type' in a markdown table",
+          inputSchema: {
+            type: "object",
+            properties: {},
+          },
         },
+        searchSpacesToolDefinition(),
+        endpoints.spaceStatusToolDefinition(),
+        usage.reportToolDefinition(),
+        ...(config.manageSpaces ? endpoints.managementToolDefinitions() : []),
+        ...(endpoints.isAsyncEnabled() ? jobs.toolDefinitions() : []),
+        ...(endpoints.conversationStores().size > 0
+          ? conversationToolDefinitions()
+          : []),
+        ...endpoints.values().map((endpoint) =>
+          endpoint.toolDefinition()
+        ),
       ],
     };
-  }
+  });
 
-  const endpoint = endpoints.get(request.params.name);
-
-  if (!endpoint) {
-    throw new Error(`Unknown tool: ${request.params.name}`);
-  }
-  try {
-    return await endpoint.call(request, server);
-  } catch (error) {
-    if (error instanceof Error) {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    if (AVAILABLE_FILES === request.params.name) {
       return {
         content: [
           {
             type: `text`,
-            text: `mcp-hfspace error: ${error.message}`,
+            text: await workingDir.generateResourceTable(),
           },
         ],
-        isError: true,
       };
     }
-    throw error;
-  }
-});
 
-server.setRequestHandler(ListPromptsRequestSchema, async () => {
-  return {
-    prompts: [
-      {
-        name: AVAILABLE_RESOURCES,
-        description: "List of available resources.",
-        arguments: [],
-      },
-      ...Array.from(endpoints.values()).map((endpoint) =>
-        endpoint.promptDefinition()
-      ),
-    ],
-  };
-});
+    if (SEARCH_SPACES === request.params.name) {
+      return await searchSpaces(request.params.arguments ?? {}, {
+        hubUrl: config.hubUrl,
+        hfToken: config.hfToken,
+      });
+    }
+
+    if (SPACE_STATUS === request.params.name) {
+      return await endpoints.spaceStatus();
+    }
 
-server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-  const promptName = request.params.name;
+    if (USAGE_REPORT === request.params.name) {
+      const caps = new Map<string, DailyCap>();
+      for (const endpoint of endpoints.values()) {
+        const cap = endpoint.dailyCap();
+        if (cap) caps.set(endpoint.toolDefinition().name, cap);
+      }
+      return await usage.report(request.params.arguments ?? {}, caps);
+    }
 
-  if (AVAILABLE_RESOURCES === promptName) {
-    return availableResourcesPrompt();
-  }
+    if (config.manageSpaces && endpoints.isManagementTool(request.params.name)) {
+      return await endpoints.callManagementTool(
+        request.params.name,
+        request.params.arguments ?? {}
+      );
+    }
 
-  const endpoint = endpoints.get(promptName);
+    if (endpoints.isAsyncEnabled() && jobs.isJobTool(request.params.name)) {
+      return await jobs.call(
+        request.params.name,
+        request.params.arguments,
+        sessionId
+      );
+    }
 
-  if (!endpoint) {
-    throw new Error(`Unknown prompt: ${promptName}`);
-  }
+    const conversationStores = endpoints.conversationStores();
+    if (
+      conversationStores.size > 0 &&
+      (request.params.name === CHAT_CONVERSATIONS ||
+        request.params.name === CHAT_RESET)
+    ) {
+      return callConversationTool(
+        request.params.name,
+        request.params.arguments ?? {},
+        conversationStores,
+        sessionId
+      );
+    }
 
-  return await endpoint.getPromptTemplate(request.params.arguments);
-});
+    const endpoint = endpoints.get(request.params.name);
 
-async function availableResourcesPrompt() {
-  const tableText = await workingDir.generateResourceTable();
+    if (!endpoint) {
+      throw new Error(`Unknown tool: ${request.params.name}`);
+    }
+    // Each call is traced from the usage cap check to the converted result;
+    // connecting to the space may already have happened at startup or on an
+    // earlier call
+    return await withSpan(
+      "tool_call",
+      { "mcp.tool": request.params.name },
+      async (span) => {
+        const measurement = await usage.begin(
+          request.params.name,
+          endpoint.dailyCap()
+        );
+        if (typeof measurement === "string") {
+          span.setAttribute("error.code", "QUOTA_EXCEEDED");
+          return toolErrorResult(new GradioCallError(measurement, 0, "quota"));
+        }
 
-  return {
-    messages: [
-      {
-        role: "user",
-        content: {
-          type: "text",
-          text: tableText,
-        },
-      },
-    ],
-  };
-}
+        try {
+          if (endpoint.isAsync()) {
+            return await jobs.start(
+              endpoint,
+              request.params.arguments ?? {},
+              workingDir,
+              measurement,
+              sessionId
+            );
+          }
+          const result = await endpoint.call(request, server, {
+            workingDir,
+            signal: extra.signal,
+            session: sessionId,
+            usage: measurement,
+          });
+          await measurement.finish({ result });
+          return result;
+        } catch (error) {
+          await measurement.finish({ error });
+          if (error instanceof Error) {
+            span.setAttribute("error.code", errorMeta(error).error.code);
+            span.end(error);
+            return toolErrorResult(error);
+          }
+          throw error;
+        }
+      }
+    );
+  });
 
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  try {
-    const resources = await workingDir.getSupportedResources();
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
     return {
-      resources: resources.map((resource) => ({
-        uri: resource.uri,
-        name: resource.name,
-        mimetype: resource.mimeType,
-      })),
+      prompts: [
+        {
+          name: AVAILABLE_RESOURCES,
+          description: "List of available resources.",
+          arguments: [],
+        },
+        ...endpoints.values().map((endpoint) =>
+          endpoint.promptDefinition()
+        ),
+      ],
     };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to list resources: ${error.message}`);
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const promptName = request.params.name;
+
+    if (AVAILABLE_RESOURCES === promptName) {
+      return availableResourcesPrompt();
     }
-    throw error;
-  }
-});
 
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  try {
-    const contents = await workingDir.readResource(request.params.uri);
+    const endpoint = endpoints.get(promptName);
+
+    if (!endpoint) {
+      throw new Error(`Unknown prompt: ${promptName}`);
+    }
+
+    return await endpoint.getPromptTemplate(request.params.arguments);
+  });
+
+  async function availableResourcesPrompt() {
+    const tableText = await workingDir.generateResourceTable();
+
     return {
-      contents: [contents],
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: tableText,
+          },
+        },
+      ],
     };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to read resource: ${error.message}`);
-    }
-    throw error;
   }
-});
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    try {
+      const resources = await workingDir.getSupportedResources();
+      return {
+        resources: resources.map((resource) => ({
+          uri: resource.uri,
+          name: resource.name,
+          mimetype: resource.mimeType,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to list resources: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    try {
+      const contents = await workingDir.readResource(request.params.uri);
+      return {
+        contents: [contents],
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to read resource: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+
+  servers.add(server);
+  server.onclose = () => {
+    servers.delete(server);
+    removeClientLog();
+  };
+  return server;
+}
+
+// Working directory for an HTTP session, optionally scoped to its own subdirectory
+function sessionWorkingDir(session: HttpSession): WorkingDirectory {
+  if (!config.sessionWorkDirs) return workingDir;
+
+  const name = (session.workspace || session.id).replace(/[^a-zA-Z0-9_-]/g, "_");
+  return workingDir.sessionDirectory(name);
+}
 
 /**
- * Start the server using stdio transport.
- * This allows the server to communicate via standard input/output streams.
+ * Start the server using stdio transport, or HTTP/SSE when configured.
+ * The HTTP transport allows several clients to share one server.
  */
 async function main() {
+  if (config.transport === "http") {
+    await startHttpServer(
+      { host: config.host, port: config.port, authToken: config.authToken },
+      async (session) => createServer(sessionWorkingDir(session), session.id)
+    );
+    log.info(
+      `mcp-hfspace listening on http://${config.host}:${config.port}/sse`
+    );
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer(workingDir).connect(transport);
 }
 
 main().catch((error) => {
-  console.error("Server error:", error);
+  log.error("Server error", { error });
   process.exit(1);
 });
@@ -0,0 +1,253 @@
+import type { Status } from "@gradio/client";
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { EndpointWrapper } from "./endpoint_wrapper.js";
+import type { WorkingDirectory } from "./working_directory.js";
+import type { RetriedSubmission } from "./retry.js";
+import { errorMeta, GradioCallError, textResult } from "./gradio_errors.js";
+import type { CallMeasurement } from "./usage_tracker.js";
+import { JobSpans } from "./tracing.js";
+
+export const JOB_STATUS = "job-status";
+export const JOB_RESULT = "job-result";
+export const JOB_CANCEL = "job-cancel";
+
+// Finished jobs kept for job-result before the oldest are discarded
+const MAX_FINISHED_JOBS = 100;
+
+type JobState = "running" | "completed" | "failed" | "cancelled";
+
+interface Job {
+  id: string;
+  toolName: string;
+  state: JobState;
+  started: Date;
+  finished?: Date;
+  lastStatus?: Status;
+  result?: CallToolResult;
+  error?: string;
+  endpoint: EndpointWrapper;
+  submission: RetriedSubmission;
+  // The session that started the job. Other sessions cannot see it
+  session?: string;
+}
+
+/**
+ * Runs endpoint calls in the background, so that long running spaces do not
+ * block the MCP request. Calls return a job ID which can be followed with the
+ * job-status, job-result and job-cancel tools.
+ */
+export class JobManager {
+  private jobs = new Map<string, Job>();
+
+  async start(
+    endpoint: EndpointWrapper,
+    args: Record<string, unknown>,
+    workingDir: WorkingDirectory,
+    usage?: CallMeasurement,
+    session?: string
+  ): Promise<CallToolResult> {
+    const { args: toolArgs, conversationId } = endpoint.takeConversationId(
+      endpoint.validateArguments(args)
+    );
+    const parameters = await endpoint.prepareParameters(
+      toolArgs,
+      workingDir,
+      conversationId,
+      session
+    );
+    const job: Job = {
+      id: crypto.randomUUID(),
+      toolName: endpoint.toolDefinition().name,
+      state: "running",
+      started: new Date(),
+      endpoint,
+      session,
+      submission: endpoint.submit(parameters, (message) => {
+        job.lastStatus = { queue: false, stage: "pending", message };
+      }),
+    };
+    this.jobs.set(job.id, job);
+
+    const spans = new JobSpans();
+    const savedFiles: string[] = [];
+    endpoint
+      .collectResult(job.submission, {
+        onStatus: async (status) => {
+          job.lastStatus = status;
+          usage?.status(status);
+          spans.status(status);
+        },
+        onData: async () => {
+          usage?.data();
+          spans.data();
+        },
+      })
+      .then((result) => {
+        spans.end();
+        endpoint.rememberConversation(conversationId, parameters, result, session);
+        return endpoint.convertPredictResults(result, workingDir, undefined, savedFiles);
+      })
+      .then((result) => endpoint.reportBackend(result, job.submission))
+      .then(
+        (result) => {
+          this.finish(job, "completed", { result });
+          usage?.saved(savedFiles);
+          usage?.finish({ result });
+        },
+        (error) => {
+          spans.end(error);
+          this.finish(job, "failed", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          usage?.finish({ error });
+        }
+      );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            `Started job ${job.id} for ${job.toolName}. ` +
+            `Use ${JOB_STATUS} to check progress and ${JOB_RESULT} to retrieve the output.`,
+        },
+      ],
+    };
+  }
+
+  isJobTool(name: string): boolean {
+    return name === JOB_STATUS || name === JOB_RESULT || name === JOB_CANCEL;
+  }
+
+  toolDefinitions(): Tool[] {
+    const jobIdSchema = {
+      type: "object" as const,
+      properties: {
+        job_id: { type: "string", description: "The job ID returned when the job was started" },
+      },
+      required: ["job_id"],
+    };
+    return [
+      {
+        name: JOB_STATUS,
+        description:
+          "Report the state (running, completed, failed or cancelled) and latest progress of a background job. " +
+          "Omit job_id to list all of your jobs.",
+        inputSchema: { ...jobIdSchema, required: [] },
+      },
+      {
+        name: JOB_RESULT,
+        description: "Retrieve the output of a completed background job.",
+        inputSchema: jobIdSchema,
+      },
+      {
+        name: JOB_CANCEL,
+        description: "Cancel a running background job.",
+        inputSchema: jobIdSchema,
+      },
+    ];
+  }
+
+  async call(
+    name: string,
+    args: Record<string, unknown> = {},
+    session?: string
+  ): Promise<CallToolResult> {
+    const jobId = typeof args.job_id === "string" ? args.job_id : undefined;
+    if (name === JOB_STATUS && !jobId) {
+      return textResult(this.listJobs(session));
+    }
+
+    // Jobs of other sessions are reported as unknown
+    const job = jobId ? this.jobs.get(jobId) : undefined;
+    if (!job || job.session !== session) {
+      return textResult(`Unknown job: ${jobId}`, true);
+    }
+
+    switch (name) {
+      case JOB_STATUS:
+        return textResult(describeJob(job));
+      case JOB_RESULT:
+        return this.result(job);
+      case JOB_CANCEL:
+        return this.cancel(job);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private result(job: Job): CallToolResult {
+    switch (job.state) {
+      case "completed":
+        return job.result!;
+      case "failed":
+        return {
+          ...textResult(`Job ${job.id} failed: ${job.error}`, true),
+          _meta: errorMeta(new GradioCallError(job.error!, job.submission.attempts)),
+        };
+      case "cancelled":
+        return textResult(`Job ${job.id} was cancelled`, true);
+      default:
+        return textResult(`Job ${job.id} is still running. ${describeJob(job)}`);
+    }
+  }
+
+  private async cancel(job: Job): Promise<CallToolResult> {
+    if (job.state !== "running") {
+      return textResult(`Job ${job.id} is already ${job.state}`);
+    }
+
+    this.finish(job, "cancelled", {});
+    await job.submission.cancel();
+    return textResult(
+      job.endpoint.supportsCancel()
+        ? `Job ${job.id} was cancelled`
+        : `Job ${job.id} was removed from the queue. ` +
+            `This endpoint does not advertise cancellation support, so a job that already started may run to completion on the space.`
+    );
+  }
+
+  private finish(
+    job: Job,
+    state: JobState,
+    outcome: Pick<Job, "result" | "error">
+  ) {
+    // A cancelled job keeps its state when the submission ends afterwards
+    if (job.state !== "running") return;
+    Object.assign(job, outcome, { state, finished: new Date() });
+    this.pruneFinishedJobs();
+  }
+
+  private pruneFinishedJobs() {
+    const finished = [...this.jobs.values()].filter((job) => job.state !== "running");
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private listJobs(session?: string): string {
+    const jobs = [...this.jobs.values()].filter((job) => job.session === session);
+    if (jobs.length === 0) return "No jobs.";
+    return jobs.map(describeJob).join("\n");
+  }
+}
+
+function describeJob(job: Job): string {
+  const elapsed = ((job.finished ?? new Date()).getTime() - job.started.getTime()) / 1000;
+  let text = `Job ${job.id} (${job.toolName}): ${job.state} after ${elapsed.toFixed(0)}s`;
+  if (job.state === "running" && job.lastStatus) {
+    const status = job.lastStatus;
+    if (status.queue && status.position !== undefined) {
+      text += `, queued at position ${status.position}`;
+    } else {
+      text += `, ${status.message || status.stage}`;
+    }
+    if (status.eta !== undefined) {
+      text += ` (eta ${status.eta.toFixed(0)}s)`;
+    }
+  }
+  if (job.state === "failed") {
+    text += `: ${job.error}`;
+  }
+  return text;
+}
@@ -0,0 +1,143 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFileSync } from "fs";
+import type { LoggingMessageNotification } from "@modelcontextprotocol/sdk/types.js";
+
+/** Log levels, from least to most severe. These match the MCP logging levels */
+export const LOG_LEVELS = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface LogEntry {
+  time: Date;
+  level: LogLevel;
+  // Module that logged the entry, e.g. "space_connection"
+  logger: string;
+  message: string;
+  data?: Record<string, unknown>;
+  // The HTTP session whose request logged the entry
+  session?: string;
+}
+
+/** A destination for log entries at or above its level */
+export interface LogSink {
+  level: LogLevel;
+  // When set, entries logged for other sessions are not written
+  session?: string;
+  write(entry: LogEntry): void;
+}
+
+export interface Logger {
+  debug(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  notice(message: string, data?: Record<string, unknown>): void;
+  warning(message: string, data?: Record<string, unknown>): void;
+  error(message: string, data?: Record<string, unknown>): void;
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+export function isAtLeast(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+// stdout carries the stdio transport, so logs go to stderr
+const stderrSink: LogSink = {
+  level: "info",
+  write(entry) {
+    const data = entry.data ? ` ${JSON.stringify(entry.data)}` : "";
+    process.stderr.write(
+      `[${entry.level.toUpperCase()}] ${entry.logger}: ${entry.message}${data}\n`
+    );
+  },
+};
+
+const sinks = new Set<LogSink>([stderrSink]);
+
+const sessions = new AsyncLocalStorage<string>();
+
+/** Run fn with the entries logged by everything it starts tagged with the session */
+export function withLogSession<T>(session: string, fn: () => T): T {
+  return sessions.run(session, fn);
+}
+
+/** Set the level of the stderr log, and add a log file of JSON lines */
+export function configureLogging(options: { level: LogLevel; file?: string }) {
+  stderrSink.level = options.level;
+  if (options.file) {
+    const file = options.file;
+    addLogSink({
+      level: options.level,
+      write(entry) {
+        try {
+          appendFileSync(file, `${JSON.stringify(entry)}\n`);
+        } catch {
+          // Logging must never fail the server
+        }
+      },
+    });
+  }
+}
+
+/** Add a destination for log entries. Returns a function that removes it */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => sinks.delete(sink);
+}
+
+export function createLogger(name: string): Logger {
+  const log = (level: LogLevel, message: string, data?: Record<string, unknown>) => {
+    const entry: LogEntry = {
+      time: new Date(),
+      level,
+      logger: name,
+      message,
+      data: data && serializeErrors(data),
+      session: sessions.getStore(),
+    };
+    for (const sink of sinks) {
+      if (isAtLeast(level, sink.level) && forSession(entry, sink)) sink.write(entry);
+    }
+  };
+  return {
+    debug: (message, data) => log("debug", message, data),
+    info: (message, data) => log("info", message, data),
+    notice: (message, data) => log("notice", message, data),
+    warning: (message, data) => log("warning", message, data),
+    error: (message, data) => log("error", message, data),
+  };
+}
+
+/** The MCP notifications/message params for a log entry */
+export function loggingMessage(entry: LogEntry): LoggingMessageNotification["params"] {
+  return {
+    level: entry.level,
+    logger: entry.logger,
+    data: entry.data ? { message: entry.message, ...entry.data } : entry.message,
+  };
+}
+
+// Entries without a session, e.g. those logged while starting, go to every sink
+function forSession(entry: LogEntry, sink: LogSink): boolean {
+  return !sink.session || !entry.session || entry.session === sink.session;
+}
+
+// Errors have no enumerable properties, so would be logged as {}
+function serializeErrors(data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      value instanceof Error ? value.message : value,
+    ])
+  );
+}
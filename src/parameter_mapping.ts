@@ -0,0 +1,50 @@
+import type { ApiEndpoint, ApiParameter } from "./gradio_api.js";
+import { parameterPropertyNames } from "./gradio_convert.js";
+
+/** Arguments as Gradio's submit takes them: keyed by parameter_name, or in order */
+export type GradioData = Record<string, unknown> | unknown[];
+
+/** The endpoint parameter for a tool argument, by its property name */
+export function parameterForProperty(
+  endpoint: ApiEndpoint,
+  propertyName: string
+): ApiParameter | undefined {
+  const index = parameterPropertyNames(endpoint).indexOf(propertyName);
+  return index >= 0 ? endpoint.parameters[index] : undefined;
+}
+
+/**
+ * True if Gradio cannot match arguments to this endpoint's parameters by
+ * name: a parameter has no parameter_name (as for older apps and unnamed
+ * endpoints), or two parameters share one.
+ */
+export function requiresPositionalData(endpoint: ApiEndpoint): boolean {
+  const names = endpoint.parameters.map((param) => param.parameter_name);
+  return names.some((name) => !name) || new Set(names).size !== names.length;
+}
+
+/**
+ * Turn tool arguments, keyed by the property names of the input schema, into
+ * the data for Gradio's submit. Arguments are passed in parameter order when
+ * the endpoint's parameters cannot be matched by name, with the defaults of
+ * parameters that have no argument.
+ */
+export function toGradioData(
+  endpoint: ApiEndpoint,
+  args: Record<string, unknown>
+): GradioData {
+  if (!requiresPositionalData(endpoint)) return args;
+
+  const propertyNames = parameterPropertyNames(endpoint);
+  const unknown = Object.keys(args).filter((name) => !propertyNames.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown parameter ${unknown.join(", ")}. Expected one of ${propertyNames.join(", ")}`
+    );
+  }
+  return endpoint.parameters.map((param, index) => {
+    const name = propertyNames[index];
+    if (name in args) return args[name];
+    return param.parameter_has_default ? param.parameter_default : null;
+  });
+}
@@ -5,6 +5,10 @@ import type { ProgressNotification } from "@modelcontextprotocol/sdk/types.js";
 
 export interface ProgressNotifier {
   notify(status: Status, progressToken: string | number): Promise<void>;
+  // Report an intermediate value yielded by a generator endpoint
+  notifyPartial(data: unknown[], progressToken: string | number): Promise<void>;
+  // Report progress before the job starts, e.g. while a sleeping space wakes
+  notifyMessage(message: string, progressToken: string | number): Promise<void>;
 }
 
 export function createProgressNotifier(server: Server): ProgressNotifier {
@@ -75,11 +79,62 @@ export function createProgressNotifier(server: Server): ProgressNotifier {
     };
   }
 
+  function createPartialNotification(
+    data: unknown[],
+    progressToken: string | number
+  ): ProgressNotification {
+    lastProgress = Math.min(99, Math.max(lastProgress, 50) + 1);
+    return {
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: lastProgress,
+        total: 100,
+        message: summarizePartial(data),
+        _meta: { partial: data }
+      },
+    };
+  }
+
   return {
     async notify(status: Status, progressToken: string | number) {
       if (!progressToken) return;
       const notification = createNotification(status, progressToken);
       await server.notification(notification);
+    },
+    async notifyPartial(data: unknown[], progressToken: string | number) {
+      if (!progressToken) return;
+      await server.notification(createPartialNotification(data, progressToken));
+    },
+    async notifyMessage(message: string, progressToken: string | number) {
+      if (!progressToken) return;
+      await server.notification({
+        method: "notifications/progress",
+        params: { progressToken, progress: lastProgress, total: 100, message },
+      });
     }
   };
 }
+
+// Text of a partial result: strings as-is, the latest chat message for
+// chatbots, and the URL of preview files
+function summarizePartial(data: unknown[]): string {
+  return data
+    .map((item) => {
+      if (typeof item === "string") return item;
+      if (typeof item === "number" || typeof item === "boolean") return String(item);
+      if (Array.isArray(item) && item.length > 0) {
+        const last = item[item.length - 1];
+        if (Array.isArray(last)) return String(last[last.length - 1] ?? "");
+        if (last && typeof last === "object" && "content" in last) {
+          return typeof last.content === "string" ? last.content : "";
+        }
+      }
+      if (item && typeof item === "object" && "url" in item) {
+        return `Preview: ${item.url}`;
+      }
+      return "";
+    })
+    .filter((text) => text.length > 0)
+    .join("\n") || "Partial result received";
+}
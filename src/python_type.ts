@@ -0,0 +1,272 @@
+// Parses the Python type annotations Gradio reports for each parameter
+// (python_type.type in view_api), e.g. "List[Literal['a', 'b']]" or
+// "Dict(headers: List[str], data: List[List[Any]])", into JSON Schema.
+
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  enum?: unknown[];
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: JsonSchema;
+  anyOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+const SCALARS: Record<string, JsonSchema> = {
+  str: { type: "string" },
+  bytes: { type: "string" },
+  filepath: { type: "string" },
+  int: { type: "integer" },
+  float: { type: "number" },
+  bool: { type: "boolean" },
+  None: { type: "null" },
+  NoneType: { type: "null" },
+  Any: {},
+  list: { type: "array" },
+  List: { type: "array" },
+  tuple: { type: "array" },
+  Tuple: { type: "array" },
+  dict: { type: "object" },
+  Dict: { type: "object" },
+};
+
+/** JSON Schema for a Gradio python_type, or undefined if it is not understood */
+export function parsePythonType(type: string): JsonSchema | undefined {
+  try {
+    return parseType(type.trim());
+  } catch {
+    return undefined;
+  }
+}
+
+function parseType(type: string): JsonSchema {
+  const alternatives = splitTopLevel(type, "|");
+  if (alternatives.length > 1) {
+    return union(alternatives.map(parseType));
+  }
+
+  const generic = parseGeneric(type);
+  if (generic) {
+    return parseGenericType(generic.name, generic.bracket, generic.inner);
+  }
+
+  const scalar = SCALARS[type];
+  if (!scalar) {
+    throw new Error(`Unknown Python type: ${type}`);
+  }
+  return { ...scalar };
+}
+
+function parseGenericType(name: string, bracket: string, inner: string): JsonSchema {
+  const args = inner.trim() ? splitTopLevel(inner, ",") : [];
+
+  if (bracket === "(") {
+    if (name !== "Dict") throw new Error(`Unknown Python type: ${name}(...)`);
+    return objectSchema(args);
+  }
+
+  switch (name) {
+    case "List":
+    case "list":
+    case "Sequence":
+      return args.length ? { type: "array", items: parseType(args[0]) } : { type: "array" };
+    case "Set":
+    case "set":
+      return { type: "array", uniqueItems: true, ...(args.length && { items: parseType(args[0]) }) };
+    case "Tuple":
+    case "tuple":
+      // Tuple[int, ...] has any number of items
+      if (args.length === 2 && args[1] === "...") {
+        return { type: "array", items: parseType(args[0]) };
+      }
+      return {
+        type: "array",
+        prefixItems: args.map(parseType),
+        minItems: args.length,
+        maxItems: args.length,
+      };
+    case "Dict":
+    case "dict":
+    case "Mapping": {
+      const values = args.length === 2 ? parseType(args[1]) : {};
+      return Object.keys(values).length
+        ? { type: "object", additionalProperties: values }
+        : { type: "object" };
+    }
+    case "Optional":
+      return union([parseType(inner), { type: "null" }]);
+    case "Union":
+      return union(args.map(parseType));
+    case "Literal":
+      return enumSchema(args.map(parseLiteral));
+    default:
+      throw new Error(`Unknown Python type: ${name}[...]`);
+  }
+}
+
+// Dict(name: type (description), ...) describes an object with named
+// properties, and Dict(str, type) one with any property names
+function objectSchema(entries: string[]): JsonSchema {
+  const schema: JsonSchema = { type: "object" };
+  const properties: Record<string, JsonSchema> = {};
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    if (entry === "str" && index + 1 < entries.length) {
+      const values = parseType(entries[++index]);
+      if (Object.keys(values).length) schema.additionalProperties = values;
+      continue;
+    }
+    const colon = entry.indexOf(":");
+    if (colon < 0) throw new Error(`Invalid Dict entry: ${entry}`);
+    const name = entry.slice(0, colon).trim();
+    const { type, description } = splitDescription(entry.slice(colon + 1).trim());
+    properties[name] = {
+      ...parseType(type),
+      ...(description && { description }),
+    };
+  }
+  if (Object.keys(properties).length) schema.properties = properties;
+  return schema;
+}
+
+// "str | None (Path to a local file)" has the description in trailing parentheses
+function splitDescription(text: string): { type: string; description?: string } {
+  if (!text.endsWith(")")) return { type: text };
+  let depth = 0;
+  for (let index = text.length - 1; index >= 0; index--) {
+    if (text[index] === ")") depth++;
+    if (text[index] === "(") depth--;
+    if (depth === 0) {
+      // Dict(...) is a type, not a description
+      if (index === 0 || !/\s/.test(text[index - 1])) return { type: text };
+      return {
+        type: text.slice(0, index).trim(),
+        description: text.slice(index + 1, -1).trim(),
+      };
+    }
+  }
+  return { type: text };
+}
+
+function union(schemas: JsonSchema[]): JsonSchema {
+  const alternatives = schemas.flatMap((schema) =>
+    schema.anyOf && Object.keys(schema).length === 1 ? schema.anyOf : [schema]
+  );
+  // Any alternative accepts every value
+  if (alternatives.some((schema) => Object.keys(schema).length === 0)) return {};
+
+  const unique = alternatives.filter(
+    (schema, index) =>
+      alternatives.findIndex((other) => JSON.stringify(other) === JSON.stringify(schema)) ===
+      index
+  );
+  return unique.length === 1 ? unique[0] : { anyOf: unique };
+}
+
+function enumSchema(values: unknown[]): JsonSchema {
+  const types = new Set(
+    values.map((value) =>
+      typeof value === "number"
+        ? Number.isInteger(value)
+          ? "integer"
+          : "number"
+        : value === null
+          ? "null"
+          : typeof value
+    )
+  );
+  if (types.size === 2 && types.has("integer") && types.has("number")) {
+    return { type: "number", enum: values };
+  }
+  return types.size === 1 ? { type: [...types][0], enum: values } : { enum: values };
+}
+
+function parseLiteral(text: string): unknown {
+  const quote = text[0];
+  if ((quote === "'" || quote === '"') && text.endsWith(quote) && text.length > 1) {
+    return text.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  if (text === "True") return true;
+  if (text === "False") return false;
+  if (text === "None") return null;
+  if (/^-?(\d+\.?\d*|\.\d+)(e-?\d+)?$/i.test(text)) return Number(text);
+  throw new Error(`Invalid literal: ${text}`);
+}
+
+// Name(...) or Name[...], when the brackets enclose the rest of the type
+function parseGeneric(type: string) {
+  const match = type.match(/^(\w+)\s*([[(])/);
+  if (!match) return undefined;
+  const open = match[0].length - 1;
+  if (closingBracket(type, open) !== type.length - 1) return undefined;
+  return {
+    name: match[1],
+    bracket: match[2],
+    inner: type.slice(open + 1, -1),
+  };
+}
+
+function closingBracket(text: string, open: number): number {
+  let depth = 0;
+  let index = open;
+  for (const char of scan(text.slice(open))) {
+    if (char === "(" || char === "[") depth++;
+    if (char === ")" || char === "]") depth--;
+    if (depth === 0) return index;
+    index++;
+  }
+  return -1;
+}
+
+// Split on a separator outside brackets and quoted strings
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let index = 0;
+  for (const char of scan(text)) {
+    if (char === "(" || char === "[") depth++;
+    if (char === ")" || char === "]") depth--;
+    if (char === separator && depth === 0) {
+      parts.push(text.slice(start, index).trim());
+      start = index + 1;
+    }
+    index++;
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+// The characters of text, with those inside quoted strings replaced by spaces.
+// A quote only starts a string where a literal can begin, so apostrophes in
+// descriptions such as "(Can't be empty)" are not mistaken for strings.
+function* scan(text: string): Generator<string> {
+  let quote: string | undefined;
+  let previous = "";
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === "\\") {
+        yield " ";
+        index++;
+        if (index < text.length) yield " ";
+        continue;
+      }
+      if (char === quote) quote = undefined;
+      yield " ";
+      continue;
+    }
+    if ((char === "'" || char === '"') && (previous === "" || "[(,|".includes(previous))) {
+      quote = char;
+      yield " ";
+      continue;
+    }
+    if (!/\s/.test(char)) previous = char;
+    yield char;
+  }
+}
@@ -0,0 +1,150 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export interface ResultCacheOptions {
+  /** Seconds before an entry expires */
+  ttlSeconds: number;
+  /** Total size of the cache entries before the oldest are removed */
+  maxSizeBytes: number;
+}
+
+interface CacheEntry {
+  created: string;
+  endpoint: string;
+  content: CallToolResult["content"];
+  // Output files saved to the working directory for this result
+  files: string[];
+}
+
+/** Identifies a call: the space, endpoint and arguments, with input files replaced by a hash of their content */
+export interface CacheKeyParts {
+  // Space name ("owner/space") or Gradio app URL
+  space: string;
+  endpoint: string | number;
+  parameters: Record<string, unknown>;
+}
+
+export function resultCacheKey(parts: CacheKeyParts): string {
+  return createHash("sha256").update(stableStringify(parts)).digest("hex");
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  const contents = await fs.readFile(filePath);
+  return `sha256:${createHash("sha256").update(contents).digest("hex")}`;
+}
+
+// JSON with object keys sorted, so that argument order does not change the key
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Results of earlier calls, stored as JSON files in a directory. Output files
+ * stay in the working directory; an entry whose files were deleted is a miss.
+ */
+export class ResultCache {
+  constructor(
+    private readonly directory: string,
+    private readonly options: ResultCacheOptions
+  ) {}
+
+  async get(key: string): Promise<CallToolResult | undefined> {
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(this.entryPath(key), "utf-8"));
+    } catch {
+      return undefined;
+    }
+
+    const created = new Date(entry.created);
+    const filesExist = await Promise.all(
+      entry.files.map((file) => fs.access(file).then(() => true, () => false))
+    );
+    if (this.isExpired(created) || filesExist.includes(false)) {
+      await fs.rm(this.entryPath(key), { force: true });
+      return undefined;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `(Cached result from ${created.toISOString()})`,
+        },
+        ...entry.content,
+      ],
+      isError: false,
+      _meta: { cached: true, cachedAt: entry.created },
+    };
+  }
+
+  async set(
+    key: string,
+    endpoint: string,
+    result: CallToolResult,
+    files: string[]
+  ): Promise<void> {
+    const entry: CacheEntry = {
+      created: new Date().toISOString(),
+      endpoint,
+      content: result.content,
+      files,
+    };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.entryPath(key), JSON.stringify(entry));
+    await this.prune();
+  }
+
+  // Remove expired entries, then the oldest until the cache fits its size cap
+  private async prune(): Promise<void> {
+    const names = (await fs.readdir(this.directory)).filter((name) =>
+      name.endsWith(".json")
+    );
+    const entries = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(this.directory, name);
+        const stats = await fs.stat(file).catch(() => undefined);
+        return { file, stats };
+      })
+    );
+
+    let totalSize = 0;
+    const live = [];
+    for (const { file, stats } of entries) {
+      if (!stats) continue;
+      if (this.isExpired(stats.mtime)) {
+        await fs.rm(file, { force: true });
+      } else {
+        totalSize += stats.size;
+        live.push({ file, size: stats.size, modified: stats.mtime.getTime() });
+      }
+    }
+
+    live.sort((a, b) => a.modified - b.modified);
+    for (const { file, size } of live) {
+      if (totalSize <= this.options.maxSizeBytes) break;
+      await fs.rm(file, { force: true });
+      totalSize -= size;
+    }
+  }
+
+  private isExpired(created: Date): boolean {
+    return Date.now() - created.getTime() > this.options.ttlSeconds * 1000;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,150 @@
+import { config } from "./config.js";
+import type { GradioEvent } from "./endpoint_wrapper.js";
+import { classifyGradioError, isRetryableError } from "./gradio_errors.js";
+import type { FallbackSubmission } from "./space_fallback.js";
+
+export interface RetryPolicy {
+  // Retries after the first attempt
+  retries: number;
+  // Delay before the first retry, doubled for each retry after it (seconds)
+  initialDelay: number;
+  maxDelay: number;
+}
+
+export function configuredRetryPolicy(): RetryPolicy {
+  return {
+    retries: config.retries,
+    initialDelay: config.retryDelay,
+    maxDelay: config.retryMaxDelay,
+  };
+}
+
+/** Delay in milliseconds before the given retry (counting from 1) */
+export function backoffDelay(retry: number, policy: RetryPolicy): number {
+  return Math.min(policy.initialDelay * 2 ** (retry - 1), policy.maxDelay) * 1000;
+}
+
+/**
+ * Run an operation, retrying with exponential backoff while it fails with an
+ * error that shouldRetry accepts. Aborting the signal stops any further
+ * attempts. The last error is thrown once the retries are used up.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: {
+    shouldRetry: (error: unknown) => boolean;
+    policy?: RetryPolicy;
+    signal?: AbortSignal;
+    onRetry?: (error: unknown, retry: number, delayMs: number) => void;
+  }
+): Promise<T> {
+  const { shouldRetry, policy = configuredRetryPolicy(), signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt > policy.retries || signal?.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, policy);
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+      if (signal?.aborted) throw error;
+    }
+  }
+}
+
+/** A submission that records how many times the job was submitted */
+export type RetriedSubmission = FallbackSubmission & { attempts: number };
+
+interface SubmissionState {
+  submission?: FallbackSubmission;
+  cancelled: AbortController;
+}
+
+/**
+ * Submit a job, submitting it again with exponential backoff when it fails
+ * with a transient error (queue full, timeout, server or connection error)
+ * before producing any data.
+ */
+export function retrySubmission(
+  submit: () => FallbackSubmission,
+  options: {
+    policy?: RetryPolicy;
+    onRetry?: (message: string, retry: number, delayMs: number) => void;
+  } = {}
+): RetriedSubmission {
+  const state: SubmissionState = { cancelled: new AbortController() };
+  const submission: RetriedSubmission = {
+    attempts: 0,
+    [Symbol.asyncIterator]: () => retryEvents(submit, state, submission, options),
+    cancel: async () => {
+      state.cancelled.abort();
+      await state.submission?.cancel();
+    },
+  };
+  return submission;
+}
+
+async function* retryEvents(
+  submit: () => FallbackSubmission,
+  state: SubmissionState,
+  result: RetriedSubmission,
+  options: {
+    policy?: RetryPolicy;
+    onRetry?: (message: string, retry: number, delayMs: number) => void;
+  }
+): AsyncGenerator<GradioEvent> {
+  const { policy = configuredRetryPolicy(), onRetry } = options;
+  const signal = state.cancelled.signal;
+
+  for (let attempt = 1; ; attempt++) {
+    const canRetry = attempt <= policy.retries;
+    let received = false;
+    result.attempts = attempt;
+    state.submission = submit();
+    try {
+      for await (const event of state.submission) {
+        if (
+          !received &&
+          canRetry &&
+          event.type === "status" &&
+          event.stage === "error" &&
+          isRetryableError(classifyGradioError(event.message))
+        ) {
+          throw new Error(event.message);
+        }
+        received ||= event.type === "data";
+        yield event;
+      }
+      result.servedBy = state.submission.servedBy;
+      return;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (
+        signal.aborted ||
+        received ||
+        !canRetry ||
+        !isRetryableError(classifyGradioError(message))
+      ) {
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, policy);
+      onRetry?.(message, attempt, delayMs);
+      await sleep(delayMs, signal);
+      if (signal.aborted) return;
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
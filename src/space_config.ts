@@ -0,0 +1,183 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import type { DailyCap } from "./usage_tracker.js";
+
+/** Overrides applied when building a tool from a space endpoint */
+export interface ToolOverrides {
+  /** Replacement MCP tool name */
+  toolName?: string;
+  /** Replacement tool description */
+  description?: string;
+  /** Values always sent to the space. These parameters are hidden from the tool */
+  fixed?: Record<string, unknown>;
+  /** Replacement default values. These parameters remain visible and optional */
+  defaults?: Record<string, unknown>;
+  /** Parameters hidden from the tool. The space's own default is used */
+  hidden?: string[];
+  /** Run calls as background jobs, overriding --async-jobs */
+  async?: boolean;
+  /** Return the last or all values yielded by a generator, overriding --generator-results */
+  generatorResults?: GeneratorResults;
+  /** Cache results of identical calls, overriding --cache */
+  cache?: boolean;
+  /** Equivalent spaces tried in order when the space fails, e.g. "vendor/space" or "vendor/space/endpoint" */
+  fallbacks?: string[];
+  /** Calls and seconds of processing allowed per day, after which calls are refused */
+  dailyCap?: DailyCap;
+}
+
+export type GeneratorResults = "last" | "all";
+
+/** A single space entry in the configuration file */
+export interface SpaceConfig extends ToolOverrides {
+  space: string;
+  endpoint?: string;
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/** Path passed to the endpoint loader, e.g. "vendor/space/endpoint" */
+export function spaceConfigPath(spaceConfig: SpaceConfig): string {
+  const endpoint = spaceConfig.endpoint?.replace(/^\//, "");
+  if (/^https?:\/\//i.test(spaceConfig.space)) {
+    // Gradio app URLs: a trailing slash means no endpoint
+    return `${spaceConfig.space.replace(/\/$/, "")}/${endpoint ?? ""}`;
+  }
+  return endpoint ? `${spaceConfig.space}/${endpoint}` : spaceConfig.space;
+}
+
+/** Parameters removed from the tool schema */
+export function isHiddenParameter(
+  name: string,
+  overrides: ToolOverrides
+): boolean {
+  return (
+    (overrides.hidden?.includes(name) ?? false) ||
+    (overrides.fixed !== undefined && name in overrides.fixed)
+  );
+}
+
+/** Apply fixed values, defaults and hidden parameters to tool call arguments */
+export function applyArgumentOverrides(
+  args: Record<string, unknown>,
+  overrides: ToolOverrides
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...overrides.defaults, ...args };
+  for (const name of overrides.hidden ?? []) {
+    delete result[name];
+  }
+  return { ...result, ...overrides.fixed };
+}
+
+/** Load space entries from a JSON or YAML configuration file */
+export function loadConfigFile(file: string): SpaceConfig[] {
+  const text = readFileSync(file, "utf-8");
+  const extension = path.extname(file).toLowerCase();
+  let parsed: unknown;
+  try {
+    parsed =
+      extension === ".yaml" || extension === ".yml"
+        ? parseYaml(text)
+        : JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Could not parse configuration file ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const spaces = (parsed as { spaces?: unknown })?.spaces;
+  if (!Array.isArray(spaces)) {
+    throw new Error(
+      `Configuration file ${file} must contain a "spaces" list`
+    );
+  }
+  return spaces.map((entry, index) => validateSpaceConfig(entry, `${file} spaces[${index}]`));
+}
+
+/** Check a space entry from the configuration file or the add-space tool */
+export function validateSpaceConfig(entry: unknown, location: string): SpaceConfig {
+  if (typeof entry === "string") {
+    return { space: entry };
+  }
+  if (typeof entry !== "object" || entry === null) {
+    throw new Error(`${location}: expected a space path or an object`);
+  }
+
+  const spaceConfig = entry as SpaceConfig;
+  if (
+    typeof spaceConfig.space !== "string" ||
+    (!/^https?:\/\//i.test(spaceConfig.space) && spaceConfig.space.split("/").length !== 2)
+  ) {
+    throw new Error(`${location}: "space" must be in the format vendor/space or a Gradio app URL`);
+  }
+  if (spaceConfig.endpoint !== undefined && typeof spaceConfig.endpoint !== "string") {
+    throw new Error(`${location}: "endpoint" must be a string`);
+  }
+  if (spaceConfig.toolName !== undefined && !TOOL_NAME_PATTERN.test(spaceConfig.toolName)) {
+    throw new Error(
+      `${location}: "toolName" must be 1-64 characters of letters, numbers, "_" or "-"`
+    );
+  }
+  if (spaceConfig.description !== undefined && typeof spaceConfig.description !== "string") {
+    throw new Error(`${location}: "description" must be a string`);
+  }
+  for (const key of ["fixed", "defaults"] as const) {
+    const value = spaceConfig[key];
+    if (value !== undefined && (typeof value !== "object" || value === null || Array.isArray(value))) {
+      throw new Error(`${location}: "${key}" must map parameter names to values`);
+    }
+  }
+  if (
+    spaceConfig.hidden !== undefined &&
+    (!Array.isArray(spaceConfig.hidden) || spaceConfig.hidden.some((name) => typeof name !== "string"))
+  ) {
+    throw new Error(`${location}: "hidden" must be a list of parameter names`);
+  }
+  if (spaceConfig.async !== undefined && typeof spaceConfig.async !== "boolean") {
+    throw new Error(`${location}: "async" must be true or false`);
+  }
+  if (spaceConfig.cache !== undefined && typeof spaceConfig.cache !== "boolean") {
+    throw new Error(`${location}: "cache" must be true or false`);
+  }
+  if (
+    spaceConfig.fallbacks !== undefined &&
+    (!Array.isArray(spaceConfig.fallbacks) ||
+      spaceConfig.fallbacks.some((space) => typeof space !== "string" || !space))
+  ) {
+    throw new Error(`${location}: "fallbacks" must be a list of space paths`);
+  }
+  if (spaceConfig.dailyCap !== undefined) {
+    const cap = spaceConfig.dailyCap;
+    if (
+      typeof cap !== "object" ||
+      cap === null ||
+      Object.entries(cap).some(
+        ([key, value]) =>
+          (key !== "calls" && key !== "seconds") ||
+          typeof value !== "number" ||
+          value < 0
+      )
+    ) {
+      throw new Error(`${location}: "dailyCap" must set "calls" and/or "seconds" to a number`);
+    }
+  }
+  if (
+    spaceConfig.generatorResults !== undefined &&
+    spaceConfig.generatorResults !== "last" &&
+    spaceConfig.generatorResults !== "all"
+  ) {
+    throw new Error(`${location}: "generatorResults" must be "last" or "all"`);
+  }
+  if (spaceConfig.endpoint === "*" && hasOverrides(spaceConfig)) {
+    throw new Error(`${location}: overrides cannot be combined with endpoint "*"`);
+  }
+  return spaceConfig;
+}
+
+/** True if the entry sets anything besides the space and endpoint */
+export function hasOverrides(spaceConfig: SpaceConfig): boolean {
+  return Object.keys(spaceConfig).some(
+    (key) => key !== "space" && key !== "endpoint"
+  );
+}
@@ -0,0 +1,249 @@
+import { Client } from "@gradio/client";
+import { config } from "./config.js";
+import type { ApiStructure } from "./gradio_api.js";
+import type { ApiSchemaCache } from "./api_cache.js";
+import type { GradioEvent, GradioSubmission } from "./endpoint_wrapper.js";
+import type { GradioData } from "./parameter_mapping.js";
+import { SpaceUnavailableError, waitForSpace } from "./space_runtime.js";
+import { classifyGradioError } from "./gradio_errors.js";
+import { createLogger } from "./logger.js";
+import { withSpan } from "./tracing.js";
+import { callLimiter, type ConcurrencyLimiter, type QueueTicket } from "./concurrency.js";
+
+const log = createLogger("space_connection");
+
+interface SubmissionState {
+  submission?: GradioSubmission;
+  ticket?: QueueTicket;
+  cancelled: boolean;
+}
+
+/**
+ * A space on the Hub or a self-hosted Gradio app. The Gradio client is only
+ * connected when first needed, and reconnected if the connection goes stale.
+ */
+export class SpaceConnection {
+  private client?: Promise<Client>;
+  // Told of the space's stage while a sleeping space is woken
+  private progressListeners = new Set<(message: string) => void>();
+  private connecting = false;
+  // True once the API was read from the cache, so it is refreshed on connecting
+  private apiFromCache = false;
+
+  constructor(
+    // Space name or URL passed to Client.connect
+    readonly reference: string,
+    readonly isUrl: boolean,
+    private readonly apiCache?: ApiSchemaCache,
+    private readonly limiter: ConcurrencyLimiter = callLimiter
+  ) {}
+
+  // The API of the space, from the cache if available
+  async api(): Promise<ApiStructure> {
+    const cached = await this.apiCache?.get(this.reference);
+    if (cached) {
+      this.apiFromCache = true;
+      return cached;
+    }
+    return this.readApi(await this.connect());
+  }
+
+  connect(onProgress?: (message: string) => void): Promise<Client> {
+    if (!this.client) {
+      const connecting = this.connectClient();
+      this.client = connecting;
+      this.connecting = true;
+      connecting.then(
+        (client) => {
+          this.connected();
+          // Keep the cached schema up to date for the next start
+          if (this.apiFromCache) this.readApi(client).catch(() => undefined);
+        },
+        () => {
+          this.connected();
+          // Try again on the next call
+          if (this.client === connecting) this.client = undefined;
+        }
+      );
+    }
+    if (onProgress && this.connecting) {
+      this.progressListeners.add(onProgress);
+    }
+    return this.client;
+  }
+
+  private connected() {
+    this.connecting = false;
+    this.progressListeners.clear();
+  }
+
+  // Drop the client, so that the next call reconnects
+  reset() {
+    this.client = undefined;
+  }
+
+  // Submit a job once connected. A job that fails with a connection error
+  // before producing any data is submitted again on a new connection.
+  submit(
+    endpoint: string | number,
+    parameters: GradioData,
+    onProgress?: (message: string) => void
+  ): GradioSubmission {
+    const state: SubmissionState = { cancelled: false };
+    return {
+      [Symbol.asyncIterator]: () =>
+        this.events(endpoint, parameters, state, onProgress),
+      cancel: async () => {
+        state.cancelled = true;
+        state.ticket?.release();
+        await state.submission?.cancel();
+      },
+    };
+  }
+
+  // Wait for a free call slot, reporting the position in the local queue as
+  // a queued status like the space's own queue, then run the job
+  private async *events(
+    endpoint: string | number,
+    parameters: GradioData,
+    state: SubmissionState,
+    onProgress?: (message: string) => void
+  ): AsyncGenerator<GradioEvent> {
+    const ticket = this.limiter.enqueue(this.reference);
+    state.ticket = ticket;
+    try {
+      let reported: number | undefined;
+      while (!ticket.granted) {
+        if (state.cancelled) return;
+        const changed = ticket.changed();
+        if (ticket.ahead !== reported) {
+          reported = ticket.ahead;
+          yield localQueueStatus(endpoint, reported);
+        }
+        await changed;
+      }
+      if (state.cancelled) return;
+      yield* this.run(endpoint, parameters, state, onProgress);
+    } finally {
+      ticket.release();
+    }
+  }
+
+  private async *run(
+    endpoint: string | number,
+    parameters: GradioData,
+    state: SubmissionState,
+    onProgress?: (message: string) => void
+  ): AsyncGenerator<GradioEvent> {
+    for (let attempt = 0; ; attempt++) {
+      const client = await this.connect(onProgress);
+      if (state.cancelled) return;
+      state.submission = client.submit(
+        endpoint,
+        parameters
+      ) as unknown as GradioSubmission;
+
+      let received = false;
+      try {
+        for await (const event of state.submission) {
+          if (
+            !received &&
+            attempt === 0 &&
+            event.type === "status" &&
+            event.stage === "error" &&
+            isConnectionError(event.message)
+          ) {
+            throw new Error(event.message);
+          }
+          received ||= event.type === "data";
+          yield event;
+        }
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (state.cancelled || received || attempt > 0 || !isConnectionError(message)) {
+          throw error;
+        }
+        log.info(`Reconnecting to ${this.reference}: ${message}`);
+        this.reset();
+      }
+    }
+  }
+
+  private async readApi(client: Client): Promise<ApiStructure> {
+    const api = (await client.view_api()) as ApiStructure;
+    if (!api || (!api.named_endpoints && !api.unnamed_endpoints)) {
+      throw new Error(`No endpoints found in space ${this.reference}`);
+    }
+    await this.apiCache?.set(this.reference, api).catch(() => undefined);
+    return api;
+  }
+
+  // Wait for the space to be running, then connect the Gradio client
+  private connectClient(): Promise<Client> {
+    return withSpan("connect", { "gradio.app": this.reference }, () =>
+      this.connectSpace()
+    );
+  }
+
+  private async connectSpace(): Promise<Client> {
+    const spaceName = this.reference;
+    try {
+      // 1) Check the space is running, waking it if asleep (not available for self-hosted apps)
+      if (!this.isUrl) {
+        await waitForSpace(spaceName, {
+          onProgress: (message) =>
+            this.progressListeners.forEach((listener) => listener(message)),
+        });
+      }
+
+      log.debug(`Connecting to Gradio client for ${spaceName}`);
+
+      // 2) Connect to Gradio client
+      // We do NOT pass in a custom fetch or streams. We rely on Node’s built-in fetch & streams in Node 18+
+      // Status events report progress, and are the only sign that a job failed
+      return await Client.connect(spaceName, {
+        events: ["data", "status"],
+        hf_token: this.isUrl ? undefined : config.hfToken,
+        max_retries: 5,
+        timeout: 600_000,
+        verbose: config.debug,
+      });
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      log.error(`Could not connect to ${spaceName}`, { space: spaceName, error });
+      if (error instanceof SpaceUnavailableError) {
+        throw error;
+      }
+      if (this.isUrl) {
+        throw new Error(
+          `Failed to connect to Gradio app at ${spaceName}: ${errMsg}\n` +
+            `Make sure the app is running and reachable from this machine.`
+        );
+      }
+      throw new Error(
+        `Space ${spaceName} is running, but its Gradio API could not be reached: ${errMsg}`
+      );
+    }
+  }
+}
+
+// Errors that mean the connection to the space was lost, e.g. after a restart
+function isConnectionError(message: string | undefined): boolean {
+  return classifyGradioError(message) === "connection";
+}
+
+function localQueueStatus(endpoint: string | number, ahead: number): GradioEvent {
+  return {
+    type: "status",
+    endpoint: String(endpoint),
+    fn_index: typeof endpoint === "number" ? endpoint : 0,
+    queue: true,
+    stage: "pending",
+    position: ahead,
+    message:
+      ahead === 0
+        ? "Waiting for a free slot, next in the local queue"
+        : `Waiting for a free slot, ${ahead} ahead in the local queue`,
+  };
+}
@@ -0,0 +1,157 @@
+import type { ApiEndpoint, ApiParameter } from "./gradio_api.js";
+import { parameterPropertyNames } from "./gradio_convert.js";
+import { parameterForProperty, toGradioData } from "./parameter_mapping.js";
+import { classifyGradioError, isFallbackError } from "./gradio_errors.js";
+import type { SpaceConnection } from "./space_connection.js";
+import type { GradioEvent, GradioSubmission } from "./endpoint_wrapper.js";
+
+/** A space able to serve a tool: the primary space or one of its fallbacks */
+export interface SpaceBackend {
+  // Display name, e.g. "vendor/space endpoint /predict"
+  name: string;
+  connection: Pick<SpaceConnection, "submit">;
+  endpoint: string | number;
+  schema: ApiEndpoint;
+}
+
+/** A submission that records which backend produced its result */
+export type FallbackSubmission = GradioSubmission & { servedBy?: string };
+
+interface SubmissionState {
+  submission?: GradioSubmission;
+  cancelled: boolean;
+}
+
+/**
+ * Map arguments for one endpoint onto an equivalent endpoint of another space,
+ * matching parameters by name or label. Returns a reason instead if a required
+ * parameter of the target cannot be filled.
+ */
+export function mapParametersByName(
+  parameters: Record<string, unknown>,
+  from: ApiEndpoint,
+  to: ApiEndpoint
+): Record<string, unknown> | string {
+  const targetNames = parameterPropertyNames(to);
+  const mapped: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(parameters)) {
+    const source = parameterForProperty(from, key);
+    const index = to.parameters.findIndex((p) =>
+      source ? sameParameter(source, p) : p.parameter_name === key || p.label === key
+    );
+    if (index >= 0) mapped[targetNames[index]] = value;
+  }
+
+  const missing = to.parameters.findIndex(
+    (p, index) => !p.parameter_has_default && !(targetNames[index] in mapped)
+  );
+  if (missing >= 0) {
+    return `it requires the parameter "${targetNames[missing]}"`;
+  }
+  return mapped;
+}
+
+function sameParameter(a: ApiParameter, b: ApiParameter): boolean {
+  return (
+    (a.parameter_name !== undefined && a.parameter_name === b.parameter_name) ||
+    a.label === b.label
+  );
+}
+
+/**
+ * Submit to each backend in turn until one succeeds. The next backend is only
+ * tried when a space fails with a queue, quota or availability error before
+ * producing any data. Backends are resolved when first needed.
+ */
+export function submitWithFallback(
+  backends: (() => Promise<SpaceBackend>)[],
+  parameters: Record<string, unknown>,
+  onProgress?: (message: string) => void
+): FallbackSubmission {
+  const state: SubmissionState = { cancelled: false };
+  const submission: FallbackSubmission = {
+    [Symbol.asyncIterator]: () =>
+      fallbackEvents(backends, parameters, state, submission, onProgress),
+    cancel: async () => {
+      state.cancelled = true;
+      await state.submission?.cancel();
+    },
+  };
+  return submission;
+}
+
+async function* fallbackEvents(
+  backends: (() => Promise<SpaceBackend>)[],
+  parameters: Record<string, unknown>,
+  state: SubmissionState,
+  result: FallbackSubmission,
+  onProgress?: (message: string) => void
+): AsyncGenerator<GradioEvent> {
+  const failures: string[] = [];
+  let primary: SpaceBackend | undefined;
+
+  for (const [index, resolve] of backends.entries()) {
+    const isLast = index === backends.length - 1;
+    let name = `fallback space ${index}`;
+    let submitted = false;
+    let received = false;
+    try {
+      const backend = await resolve();
+      name = backend.name;
+      // Arguments are given for the primary's endpoint, the first backend
+      primary ??= backend;
+      const mapped =
+        backend === primary
+          ? parameters
+          : mapParametersByName(parameters, primary.schema, backend.schema);
+      if (typeof mapped === "string") {
+        throw new Error(`${name} cannot be used: ${mapped}`);
+      }
+      if (state.cancelled) return;
+
+      submitted = true;
+      state.submission = backend.connection.submit(
+        backend.endpoint,
+        toGradioData(backend.schema, mapped),
+        onProgress
+      );
+      for await (const event of state.submission) {
+        if (
+          !received &&
+          !isLast &&
+          event.type === "status" &&
+          event.stage === "error" &&
+          isFallbackError(classifyGradioError(event.message))
+        ) {
+          throw new Error(event.message);
+        }
+        received ||= event.type === "data";
+        if (event.type === "status" && event.stage === "error" && failures.length > 0) {
+          yield { ...event, message: `${event.message} (after ${failures.join("; ")})` };
+          continue;
+        }
+        yield event;
+      }
+      result.servedBy = name;
+      return;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // A space that could not be loaded is skipped. Once submitted, only
+      // errors that another space may not have move on to the next one
+      if (
+        state.cancelled ||
+        received ||
+        isLast ||
+        !primary ||
+        (submitted && !isFallbackError(classifyGradioError(message)))
+      ) {
+        throw failures.length > 0
+          ? new Error(`${message} (after ${failures.join("; ")})`)
+          : error;
+      }
+      failures.push(`${name} failed: ${message}`);
+      onProgress?.(`${name} failed: ${message}. Trying the next space`);
+    }
+  }
+}
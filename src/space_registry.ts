@@ -0,0 +1,327 @@
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  EndpointWrapper,
+  endpointSpecified,
+  isAllEndpointsPath,
+  isUrlPath,
+  spaceReference,
+} from "./endpoint_wrapper.js";
+import { config } from "./config.js";
+import type { ConversationStore } from "./conversations.js";
+import {
+  hasOverrides,
+  spaceConfigPath,
+  validateSpaceConfig,
+  type SpaceConfig,
+} from "./space_config.js";
+import type { WorkingDirectory } from "./working_directory.js";
+import type { ApiSchemaCache } from "./api_cache.js";
+import { fetchSpaceRuntime } from "./space_runtime.js";
+import { textResult } from "./gradio_errors.js";
+
+export const ADD_SPACE = "add-space";
+export const REMOVE_SPACE = "remove-space";
+export const SPACE_STATUS = "space-status";
+
+// Time allowed to check that a self-hosted app is reachable
+const APP_CHECK_TIMEOUT = 5000;
+
+interface LoadedSpace {
+  spaceConfig: SpaceConfig;
+  toolNames: string[];
+}
+
+/**
+ * The endpoints served as tools, grouped by the space entry that created them.
+ * Spaces can be added and removed while the server runs; listeners are told
+ * so that clients can be sent list_changed notifications.
+ */
+export class SpaceRegistry {
+  private endpoints = new Map<string, EndpointWrapper>();
+  private spaces = new Map<string, LoadedSpace>();
+  // Spaces still being loaded, so that a second add of one is refused
+  private loading = new Set<string>();
+  private listeners: (() => void)[] = [];
+
+  constructor(
+    private readonly workingDir: WorkingDirectory,
+    private readonly apiCache?: ApiSchemaCache
+  ) {}
+
+  get(toolName: string): EndpointWrapper | undefined {
+    return this.endpoints.get(toolName);
+  }
+
+  values(): EndpointWrapper[] {
+    return Array.from(this.endpoints.values());
+  }
+
+  get size(): number {
+    return this.endpoints.size;
+  }
+
+  onChange(listener: () => void) {
+    this.listeners.push(listener);
+  }
+
+  // Load the endpoints for a space entry. Existing tools keep their names
+  async add(spaceConfig: SpaceConfig): Promise<EndpointWrapper[]> {
+    const spacePath = spaceConfigPath(spaceConfig);
+    if (this.spaces.has(spacePath)) {
+      throw new Error(`Space ${spacePath} is already loaded`);
+    }
+    if (this.loading.has(spacePath)) {
+      throw new Error(`Space ${spacePath} is already being loaded`);
+    }
+
+    this.loading.add(spacePath);
+    try {
+      return await this.load(spacePath, spaceConfig);
+    } finally {
+      this.loading.delete(spacePath);
+    }
+  }
+
+  private async load(spacePath: string, spaceConfig: SpaceConfig): Promise<EndpointWrapper[]> {
+    // --all-endpoints does not apply to entries with overrides, which
+    // describe a single tool
+    const loaded =
+      isAllEndpointsPath(spacePath) ||
+      (config.allEndpoints && !endpointSpecified(spacePath) && !hasOverrides(spaceConfig))
+        ? await EndpointWrapper.createEndpoints(
+            spacePath,
+            this.workingDir,
+            this.apiCache
+          )
+        : [
+            await EndpointWrapper.createEndpoint(
+              spacePath,
+              this.workingDir,
+              spaceConfig,
+              this.apiCache
+            ),
+          ];
+
+    const toolNames = loaded.map((endpoint) => endpoint.toolDefinition().name);
+    const taken = toolNames.filter((name) => this.endpoints.has(name));
+    if (taken.length > 0) {
+      throw new Error(
+        `Tool ${taken.join(", ")} already exists. Choose another tool name`
+      );
+    }
+
+    loaded.forEach((endpoint, index) =>
+      this.endpoints.set(toolNames[index], endpoint)
+    );
+    this.spaces.set(spacePath, { spaceConfig, toolNames });
+    this.notify();
+    return loaded;
+  }
+
+  // Remove a space by its path or the name of one of its tools
+  remove(spaceOrToolName: string): string[] {
+    const entry = [...this.spaces.entries()].find(
+      ([spacePath, { spaceConfig, toolNames }]) =>
+        spacePath === spaceOrToolName ||
+        spaceConfig.space === spaceOrToolName ||
+        toolNames.includes(spaceOrToolName)
+    );
+    if (!entry) {
+      throw new Error(`No space or tool named ${spaceOrToolName} is loaded`);
+    }
+
+    const [spacePath, { toolNames }] = entry;
+    this.spaces.delete(spacePath);
+    for (const toolName of toolNames) {
+      this.endpoints.delete(toolName);
+    }
+    this.notify();
+    return toolNames;
+  }
+
+  // Apply the changes between two versions of the configuration file,
+  // returning an error message for each space that could not be updated
+  async reload(previous: SpaceConfig[], current: SpaceConfig[]): Promise<string[]> {
+    const key = (spaceConfig: SpaceConfig) => JSON.stringify(spaceConfig);
+    const currentKeys = new Set(current.map(key));
+    const previousKeys = new Set(previous.map(key));
+    const errors: string[] = [];
+
+    for (const spaceConfig of previous) {
+      const spacePath = spaceConfigPath(spaceConfig);
+      if (!currentKeys.has(key(spaceConfig)) && this.spaces.has(spacePath)) {
+        this.remove(spacePath);
+      }
+    }
+    for (const spaceConfig of current) {
+      if (previousKeys.has(key(spaceConfig))) continue;
+      try {
+        await this.add(spaceConfig);
+      } catch (error) {
+        errors.push(
+          `Error loading ${spaceConfigPath(spaceConfig)}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    return errors;
+  }
+
+  isAsyncEnabled(): boolean {
+    return this.values().some((endpoint) => endpoint.isAsync());
+  }
+
+  // Conversation history of the chat endpoints, by tool name
+  conversationStores(): Map<string, ConversationStore> {
+    const stores = new Map<string, ConversationStore>();
+    for (const [toolName, endpoint] of this.endpoints) {
+      if (endpoint.conversations) {
+        stores.set(toolName, endpoint.conversations);
+      }
+    }
+    return stores;
+  }
+
+  isManagementTool(name: string): boolean {
+    return name === ADD_SPACE || name === REMOVE_SPACE;
+  }
+
+  managementToolDefinitions(): Tool[] {
+    return [
+      {
+        name: ADD_SPACE,
+        description:
+          "Add a Hugging Face space or Gradio app as a new tool, without restarting the server. " +
+          "Use search-spaces to find candidates.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            space: {
+              type: "string",
+              description: "Space in the format vendor/space, or a Gradio app URL",
+            },
+            endpoint: {
+              type: "string",
+              description: "Endpoint to use, e.g. /predict. Use * for every endpoint",
+            },
+            tool_name: { type: "string", description: "Name for the new tool" },
+          },
+          required: ["space"],
+        },
+      },
+      {
+        name: REMOVE_SPACE,
+        description: "Remove a space added earlier, and all of its tools.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            space: {
+              type: "string",
+              description: "The space path, or the name of one of its tools",
+            },
+          },
+          required: ["space"],
+        },
+      },
+    ];
+  }
+
+  async callManagementTool(
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<CallToolResult> {
+    try {
+      if (name === ADD_SPACE) {
+        const spaceConfig = validateSpaceConfig(
+          {
+            space: args.space,
+            ...(args.endpoint !== undefined && { endpoint: args.endpoint }),
+            ...(args.tool_name !== undefined && { toolName: args.tool_name }),
+          },
+          ADD_SPACE
+        );
+        const added = await this.add(spaceConfig);
+        const toolNames = added.map((endpoint) => endpoint.toolDefinition().name);
+        return textResult(`Added tool ${toolNames.join(", ")}`);
+      }
+
+      if (typeof args.space !== "string") {
+        throw new Error(`${REMOVE_SPACE}: "space" must be a string`);
+      }
+      return textResult(`Removed tool ${this.remove(args.space).join(", ")}`);
+    } catch (error) {
+      return textResult(
+        error instanceof Error ? error.message : String(error),
+        true
+      );
+    }
+  }
+
+  spaceStatusToolDefinition(): Tool {
+    return {
+      name: SPACE_STATUS,
+      description:
+        "Report the runtime stage (e.g. RUNNING, SLEEPING, BUILDING, RUNTIME_ERROR, PAUSED), " +
+        "hardware and SDK of every configured space, with the tools it provides.",
+      inputSchema: { type: "object", properties: {} },
+    };
+  }
+
+  async spaceStatus(): Promise<CallToolResult> {
+    if (this.spaces.size === 0) {
+      return textResult("No spaces are loaded.");
+    }
+
+    const rows = await Promise.all(
+      [...this.spaces.values()].map(async ({ spaceConfig, toolNames }) => {
+        const reference = spaceReference(spaceConfig.space);
+        const status = isUrlPath(reference)
+          ? await appStatus(reference)
+          : await hubStatus(reference);
+        return `| ${spaceConfig.space} | ${toolNames.join(", ")} | ${status} |`;
+      })
+    );
+    return textResult(
+      [
+        "| Space | Tools | Stage | Hardware | SDK |",
+        "|-------|-------|-------|----------|-----|",
+        ...rows,
+      ].join("\n")
+    );
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+// Stage, hardware and SDK columns for a space on the Hub
+async function hubStatus(spaceName: string): Promise<string> {
+  try {
+    const runtime = await fetchSpaceRuntime(spaceName);
+    const stage = runtime.errorMessage
+      ? `${runtime.stage}: ${runtime.errorMessage.replace(/\s+/g, " ")}`
+      : runtime.stage;
+    const hardware =
+      runtime.requestedHardware && runtime.requestedHardware !== runtime.hardware
+        ? `${runtime.hardware ?? "none"} (requested ${runtime.requestedHardware})`
+        : runtime.hardware ?? "unknown";
+    return `${stage} | ${hardware} | ${runtime.sdk ?? "unknown"}`;
+  } catch (error) {
+    return `${error instanceof Error ? error.message : String(error)} | unknown | unknown`;
+  }
+}
+
+// Self-hosted apps have no Hub metadata; report whether they are reachable
+async function appStatus(appUrl: string): Promise<string> {
+  try {
+    const response = await fetch(appUrl, {
+      signal: AbortSignal.timeout(APP_CHECK_TIMEOUT),
+    });
+    await response.body?.cancel();
+    return `${response.ok ? "REACHABLE" : `HTTP ${response.status}`} | self-hosted | gradio`;
+  } catch (error) {
+    return `UNREACHABLE: ${error instanceof Error ? error.message : String(error)} | self-hosted | gradio`;
+  }
+}
@@ -0,0 +1,225 @@
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { withSpan } from "./tracing.js";
+
+const log = createLogger("space_runtime");
+
+/** Runtime stages reported by the Hub for a space */
+export type SpaceStage =
+  | "RUNNING"
+  | "RUNNING_BUILDING"
+  | "RUNNING_APP_STARTING"
+  | "SLEEPING"
+  | "STOPPED"
+  | "BUILDING"
+  | "APP_STARTING"
+  | "BUILD_ERROR"
+  | "CONFIG_ERROR"
+  | "RUNTIME_ERROR"
+  | "NO_APP_FILE"
+  | "PAUSED"
+  | "DELETING";
+
+export interface SpaceRuntimeStatus {
+  stage: SpaceStage | string;
+  sdk?: string;
+  hardware?: string;
+  requestedHardware?: string;
+  // Gradio app URL, e.g. https://vendor-space.hf.space
+  host?: string;
+  errorMessage?: string;
+}
+
+/** A space that cannot be used in its current state, with the reason */
+export class SpaceUnavailableError extends Error {
+  constructor(
+    message: string,
+    readonly stage?: string
+  ) {
+    super(message);
+    this.name = "SpaceUnavailableError";
+  }
+}
+
+const RUNNING_STAGES = ["RUNNING", "RUNNING_BUILDING", "RUNNING_APP_STARTING"];
+// Stages that end by themselves, or once the space is woken
+const STARTING_STAGES = ["SLEEPING", "STOPPED", "BUILDING", "APP_STARTING"];
+const POLL_INTERVAL = 5000;
+
+export function isRunning(runtime: SpaceRuntimeStatus): boolean {
+  return RUNNING_STAGES.includes(runtime.stage);
+}
+
+/** Fetch the runtime stage, hardware and SDK of a space from the Hub */
+export async function fetchSpaceRuntime(
+  spaceName: string
+): Promise<SpaceRuntimeStatus> {
+  return withSpan("hub_metadata", { "hf.space": spaceName }, async (span) => {
+    const runtime = await readSpaceRuntime(spaceName);
+    span.setAttribute("hf.space.stage", runtime.stage);
+    return runtime;
+  });
+}
+
+async function readSpaceRuntime(spaceName: string): Promise<SpaceRuntimeStatus> {
+  log.debug(`Checking space metadata for ${spaceName}`);
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+  };
+  if (config.hfToken) {
+    headers["Authorization"] = `Bearer ${config.hfToken}`;
+  }
+
+  const response = await fetch(`${config.hubUrl}/api/spaces/${spaceName}`, {
+    headers,
+  });
+  if (!response.ok) {
+    log.debug(`Metadata check failed for ${spaceName}`, {
+      status: response.status,
+      statusText: response.statusText,
+      body: await response.text(),
+    });
+    throw metadataError(spaceName, response.status);
+  }
+
+  const metadata = (await response.json()) as {
+    sdk?: string;
+    host?: string;
+    subdomain?: string;
+    runtime?: {
+      stage?: string;
+      errorMessage?: string;
+      hardware?: { current?: string | null; requested?: string | null };
+    };
+  };
+  return {
+    stage: metadata.runtime?.stage ?? "RUNNING",
+    sdk: metadata.sdk,
+    hardware: metadata.runtime?.hardware?.current ?? undefined,
+    requestedHardware: metadata.runtime?.hardware?.requested ?? undefined,
+    host:
+      metadata.host ??
+      (metadata.subdomain ? `https://${metadata.subdomain}.hf.space` : undefined),
+    errorMessage: metadata.runtime?.errorMessage,
+  };
+}
+
+function metadataError(spaceName: string, status: number): SpaceUnavailableError {
+  switch (status) {
+    case 401:
+    case 403:
+      return new SpaceUnavailableError(
+        config.hfToken
+          ? `Space ${spaceName} is private or gated, and HF_TOKEN does not give access to it`
+          : `Space ${spaceName} is private or gated. Set HF_TOKEN to a token with access to it`
+      );
+    case 404:
+      return new SpaceUnavailableError(
+        `Space ${spaceName} was not found on the Hub. Check the vendor/space name`
+      );
+    default:
+      return new SpaceUnavailableError(
+        `Space ${spaceName} is not accessible (HTTP ${status})`
+      );
+  }
+}
+
+/** The reason a space cannot be used, or undefined if it is running or starting */
+export function runtimeError(
+  spaceName: string,
+  runtime: SpaceRuntimeStatus
+): SpaceUnavailableError | undefined {
+  if (runtime.sdk && runtime.sdk !== "gradio") {
+    return new SpaceUnavailableError(
+      `Space ${spaceName} uses the ${runtime.sdk} SDK. Only Gradio spaces can be used`,
+      runtime.stage
+    );
+  }
+  if (isRunning(runtime) || STARTING_STAGES.includes(runtime.stage)) {
+    return undefined;
+  }
+
+  const detail = runtime.errorMessage ? `: ${runtime.errorMessage}` : "";
+  switch (runtime.stage) {
+    case "PAUSED":
+      return new SpaceUnavailableError(
+        `Space ${spaceName} has been paused by its owner. Try duplicating the space`,
+        runtime.stage
+      );
+    case "BUILD_ERROR":
+      return new SpaceUnavailableError(
+        `Space ${spaceName} failed to build${detail}`,
+        runtime.stage
+      );
+    case "CONFIG_ERROR":
+    case "NO_APP_FILE":
+      return new SpaceUnavailableError(
+        `Space ${spaceName} is misconfigured (${runtime.stage})${detail}`,
+        runtime.stage
+      );
+    default:
+      return new SpaceUnavailableError(
+        `Space ${spaceName} is not running (${runtime.stage})${detail}`,
+        runtime.stage
+      );
+  }
+}
+
+/**
+ * Wait until a space is running, waking it if it is asleep. The stage is
+ * reported with onProgress while waiting.
+ */
+export async function waitForSpace(
+  spaceName: string,
+  options: {
+    onProgress?: (message: string) => void;
+    timeoutSeconds?: number;
+    pollInterval?: number;
+  } = {}
+): Promise<SpaceRuntimeStatus> {
+  const {
+    onProgress,
+    timeoutSeconds = config.wakeTimeout,
+    pollInterval = POLL_INTERVAL,
+  } = options;
+  const started = Date.now();
+  let woken = false;
+
+  for (;;) {
+    const runtime = await fetchSpaceRuntime(spaceName);
+    const error = runtimeError(spaceName, runtime);
+    if (error) throw error;
+    if (isRunning(runtime)) return runtime;
+
+    const elapsed = Math.round((Date.now() - started) / 1000);
+    if (elapsed >= timeoutSeconds) {
+      throw new SpaceUnavailableError(
+        `Space ${spaceName} is still ${runtime.stage} after ${elapsed}s. Try again later`,
+        runtime.stage
+      );
+    }
+
+    if (!woken && (runtime.stage === "SLEEPING" || runtime.stage === "STOPPED")) {
+      wakeSpace(runtime);
+      woken = true;
+    }
+    onProgress?.(
+      `Space ${spaceName} is ${runtime.stage}${
+        woken ? ", waiting for it to wake up" : ""
+      } (${elapsed}s)`
+    );
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+}
+
+// A request to the app wakes a sleeping space. The response is not needed
+function wakeSpace(runtime: SpaceRuntimeStatus) {
+  if (!runtime.host) return;
+  const headers: Record<string, string> = {};
+  if (config.hfToken) {
+    headers["Authorization"] = `Bearer ${config.hfToken}`;
+  }
+  fetch(runtime.host, { headers })
+    .then((response) => response.body?.cancel())
+    .catch(() => undefined);
+}
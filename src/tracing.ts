@@ -0,0 +1,249 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "crypto";
+import type { Status } from "@gradio/client";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("tracing");
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/** A timed operation within a tool call, in the style of an OpenTelemetry span */
+export class Span {
+  readonly spanId = randomBytes(8).toString("hex");
+  readonly startTime = now();
+  endTime?: number;
+  status: { code: "unset" | "ok" | "error"; message?: string } = { code: "unset" };
+
+  constructor(
+    readonly name: string,
+    readonly traceId: string,
+    readonly parentSpanId: string | undefined,
+    readonly attributes: SpanAttributes = {}
+  ) {}
+
+  setAttribute(key: string, value: string | number | boolean) {
+    this.attributes[key] = value;
+  }
+
+  // End the span, failed if an error is given. Later calls are ignored
+  end(error?: unknown) {
+    if (this.endTime !== undefined) return;
+    this.endTime = now();
+    this.status =
+      error === undefined
+        ? { code: "ok" }
+        : { code: "error", message: error instanceof Error ? error.message : String(error) };
+    for (const exporter of exporters) {
+      exporter(this);
+    }
+  }
+}
+
+export type SpanExporter = (span: Span) => void;
+
+const exporters = new Set<SpanExporter>([
+  (span) =>
+    log.debug(`${span.name} ${span.status.code} in ${Math.round(span.endTime! - span.startTime)}ms`, {
+      traceId: span.traceId,
+      ...span.attributes,
+      ...(span.status.message ? { error: span.status.message } : {}),
+    }),
+]);
+
+const activeSpans = new AsyncLocalStorage<Span>();
+
+export function activeSpan(): Span | undefined {
+  return activeSpans.getStore();
+}
+
+/** Start a span, by default as a child of the active span */
+export function startSpan(
+  name: string,
+  attributes: SpanAttributes = {},
+  parent: Span | undefined = activeSpan()
+): Span {
+  return new Span(
+    name,
+    parent?.traceId ?? randomBytes(16).toString("hex"),
+    parent?.spanId,
+    { ...attributes }
+  );
+}
+
+/** Run fn in a new span, which is active for everything fn starts */
+export async function withSpan<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = startSpan(name, attributes);
+  try {
+    const result = await activeSpans.run(span, () => fn(span));
+    span.end();
+    return result;
+  } catch (error) {
+    span.end(error);
+    throw error;
+  }
+}
+
+export function addSpanExporter(exporter: SpanExporter): () => void {
+  exporters.add(exporter);
+  return () => exporters.delete(exporter);
+}
+
+/**
+ * Follows a Gradio job through its status events, with a span for each
+ * phase: submit (until the space acknowledges the job), queue and generate.
+ */
+export class JobSpans {
+  private current?: Span;
+  private phase?: string;
+
+  constructor(private readonly parent: Span | undefined = activeSpan()) {
+    this.enter("submit");
+  }
+
+  status(status: Pick<Status, "queue" | "stage">) {
+    if (status.stage === "pending" && status.queue) {
+      this.enter("queue");
+    } else if (status.stage === "complete") {
+      this.end();
+    } else if (status.stage !== "pending" || this.phase === "queue") {
+      this.enter("generate");
+    }
+  }
+
+  data() {
+    this.enter("generate");
+  }
+
+  end(error?: unknown) {
+    this.current?.end(error);
+    this.current = undefined;
+  }
+
+  private enter(phase: string) {
+    if (phase === this.phase && this.current) return;
+    this.current?.end();
+    this.phase = phase;
+    this.current = startSpan(phase, {}, this.parent);
+  }
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector using OTLP over HTTP with JSON,
+ * e.g. http://localhost:4318. Spans are batched and sent every few seconds.
+ */
+export class OtlpExporter {
+  private pending: Span[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly serviceVersion: string,
+    private readonly flushInterval = 2000
+  ) {}
+
+  readonly export: SpanExporter = (span) => {
+    this.pending.push(span);
+    if (this.pending.length >= 100) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushInterval);
+      this.timer.unref();
+    }
+  };
+
+  async flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const spans = this.pending;
+    this.pending = [];
+    if (spans.length === 0) return;
+
+    try {
+      const response = await fetch(`${this.endpoint.replace(/\/+$/, "")}/v1/traces`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(otlpRequest(spans, this.serviceVersion)),
+      });
+      if (!response.ok) {
+        log.debug(`OTLP export failed: HTTP ${response.status}`);
+      }
+    } catch (error) {
+      log.debug("OTLP export failed", { error });
+    }
+  }
+}
+
+function otlpRequest(spans: Span[], serviceVersion: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: otlpAttributes({
+            "service.name": "mcp-hfspace",
+            "service.version": serviceVersion,
+          }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: "mcp-hfspace", version: serviceVersion },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              parentSpanId: span.parentSpanId,
+              name: span.name,
+              // SPAN_KIND_INTERNAL
+              kind: 1,
+              startTimeUnixNano: unixNano(span.startTime),
+              endTimeUnixNano: unixNano(span.endTime ?? span.startTime),
+              attributes: otlpAttributes(span.attributes),
+              // STATUS_CODE_OK = 1, STATUS_CODE_ERROR = 2
+              status:
+                span.status.code === "error"
+                  ? { code: 2, message: span.status.message }
+                  : { code: 1 },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function otlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: value }
+            : { doubleValue: value },
+  }));
+}
+
+// Milliseconds since the epoch, with sub-millisecond precision
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function unixNano(milliseconds: number): string {
+  return (BigInt(Math.round(milliseconds * 1000)) * 1000n).toString();
+}
+
+/** Export spans to an OTLP collector, if an endpoint is configured */
+export function configureTracing(options: {
+  otlpEndpoint?: string;
+  serviceVersion: string;
+}) {
+  if (options.otlpEndpoint) {
+    addSpanExporter(
+      new OtlpExporter(options.otlpEndpoint, options.serviceVersion).export
+    );
+  }
+}
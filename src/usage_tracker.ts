@@ -0,0 +1,356 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Status } from "@gradio/client";
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { WorkingDirectory } from "./working_directory.js";
+import { textResult } from "./gradio_errors.js";
+import { createLogger } from "./logger.js";
+
+export const USAGE_REPORT = "usage-report";
+
+const log = createLogger("usage_tracker");
+
+/** Limits on the use of a tool per day (UTC) */
+export interface DailyCap {
+  /** Calls per day */
+  calls?: number;
+  /** Seconds of processing per day, not counting time spent queued */
+  seconds?: number;
+}
+
+/** One call to a tool, as stored in the usage file */
+export interface UsageRecord {
+  tool: string;
+  started: string;
+  wallSeconds: number;
+  queueSeconds: number;
+  outputBytes: number;
+  success: boolean;
+  // Served from the result cache, so not counted against daily caps
+  cached?: boolean;
+  error?: string;
+}
+
+interface UsageTotals {
+  calls: number;
+  seconds: number;
+}
+
+/**
+ * Measures a single call: its wall time, and the time spent queued as shown
+ * by its status events. The record is written when the call finishes.
+ */
+export class CallMeasurement {
+  private readonly started = Date.now();
+  private queuedAt?: number;
+  private queueEnded?: number;
+  // Output files saved to the working directory for the call
+  private files: string[] = [];
+
+  constructor(
+    private readonly tracker: UsageTracker,
+    readonly tool: string
+  ) {}
+
+  status(status: Pick<Status, "queue" | "stage">) {
+    if (status.stage === "pending" && status.queue) {
+      this.queuedAt ??= Date.now();
+    } else {
+      this.endQueue();
+    }
+  }
+
+  data() {
+    this.endQueue();
+  }
+
+  saved(files: readonly string[]) {
+    this.files.push(...files);
+  }
+
+  async finish(outcome: { result: CallToolResult } | { error: unknown }) {
+    this.endQueue();
+    this.tracker.ended(this.tool);
+    const record: UsageRecord = {
+      tool: this.tool,
+      started: new Date(this.started).toISOString(),
+      wallSeconds: (Date.now() - this.started) / 1000,
+      queueSeconds: this.queueSeconds(),
+      outputBytes: await outputBytes(
+        "result" in outcome ? outcome.result : undefined,
+        this.files
+      ),
+      success: "result" in outcome && !outcome.result.isError,
+    };
+    if ("result" in outcome && outcome.result._meta?.cached) {
+      record.cached = true;
+    }
+    if ("error" in outcome) {
+      record.error =
+        outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+    }
+    // Failing to record usage should not fail the call
+    await this.tracker.record(record).catch(() => undefined);
+  }
+
+  private endQueue() {
+    if (this.queuedAt !== undefined) this.queueEnded ??= Date.now();
+  }
+
+  private queueSeconds(): number {
+    if (this.queuedAt === undefined) return 0;
+    return ((this.queueEnded ?? Date.now()) - this.queuedAt) / 1000;
+  }
+}
+
+/**
+ * Records the usage of every tool call as JSON lines in the working
+ * directory, and enforces daily caps from the configuration file.
+ */
+export class UsageTracker {
+  private readonly file: string;
+  // Totals for the current UTC day, read from the file when first needed
+  private totals?: Promise<Map<string, UsageTotals>>;
+  private totalsDay?: string;
+  // Calls still running per tool, which count against the daily caps
+  private running = new Map<string, number>();
+
+  constructor(private readonly workingDir: WorkingDirectory) {
+    this.file = path.join(workingDir.stateDirectory("usage"), "usage.jsonl");
+  }
+
+  start(tool: string): CallMeasurement {
+    this.running.set(tool, (this.running.get(tool) ?? 0) + 1);
+    return new CallMeasurement(this, tool);
+  }
+
+  // Start measuring a call, or return why it is refused by the daily cap.
+  // The cap is checked and the call counted as running in one step, so that
+  // concurrent calls cannot together overrun it.
+  async begin(tool: string, cap?: DailyCap): Promise<CallMeasurement | string> {
+    const refused = capExceeded(tool, cap, await this.todayTotals(), this.running.get(tool));
+    return refused ?? this.start(tool);
+  }
+
+  // Told by a measurement that its call has finished
+  ended(tool: string) {
+    const running = (this.running.get(tool) ?? 0) - 1;
+    if (running > 0) {
+      this.running.set(tool, running);
+    } else {
+      this.running.delete(tool);
+    }
+  }
+
+  async record(record: UsageRecord) {
+    // Read today's totals before appending, so the record is only counted once
+    const totals = await this.todayTotals();
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.appendFile(this.file, `${JSON.stringify(record)}\n`);
+    if (!record.cached && utcDay(new Date(record.started)) === this.totalsDay) {
+      addToTotals(totals, record);
+    }
+  }
+
+  // A message explaining why a call is refused, or undefined if it is within the cap
+  async checkCap(tool: string, cap?: DailyCap): Promise<string | undefined> {
+    return capExceeded(tool, cap, await this.todayTotals(), this.running.get(tool));
+  }
+
+  reportToolDefinition(): Tool {
+    return {
+      name: USAGE_REPORT,
+      description:
+        "Report the calls, failures, wall time, queue time and output size of each tool, " +
+        "with today's use against any daily cap.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          days: {
+            type: "number",
+            description: "Number of days to report, counting back from now",
+            default: 1,
+          },
+          tool: {
+            type: "string",
+            description: "Only report this tool",
+          },
+        },
+      },
+    };
+  }
+
+  async report(
+    args: Record<string, unknown>,
+    caps: Map<string, DailyCap>
+  ): Promise<CallToolResult> {
+    const days = typeof args.days === "number" && args.days > 0 ? args.days : 1;
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    const records = (await this.readRecords()).filter(
+      (record) =>
+        Date.parse(record.started) >= since &&
+        (typeof args.tool !== "string" || record.tool === args.tool)
+    );
+    if (records.length === 0) {
+      return textResult(`No calls in the last ${days} day(s).`);
+    }
+
+    const byTool = new Map<string, UsageRecord[]>();
+    for (const record of records) {
+      byTool.set(record.tool, [...(byTool.get(record.tool) ?? []), record]);
+    }
+    const today = await this.todayTotals();
+    const rows = [...byTool.entries()].map(([tool, calls]) => {
+      const sum = (value: (record: UsageRecord) => number) =>
+        calls.reduce((total, record) => total + value(record), 0);
+      const failed = calls.filter((record) => !record.success).length;
+      const cached = calls.filter((record) => record.cached).length;
+      return [
+        tool,
+        calls.length,
+        failed,
+        cached,
+        `${sum((record) => record.wallSeconds).toFixed(1)}s`,
+        `${sum((record) => record.queueSeconds).toFixed(1)}s`,
+        this.workingDir.formatFileSize(sum((record) => record.outputBytes)),
+        describeCap(today.get(tool), caps.get(tool)),
+      ].join(" | ");
+    });
+    return textResult(
+      [
+        "| Tool | Calls | Failed | Cached | Wall time | Queue time | Output | Today / daily cap |",
+        "|------|-------|--------|--------|-----------|------------|--------|-------------------|",
+        ...rows.map((row) => `| ${row} |`),
+      ].join("\n")
+    );
+  }
+
+  private todayTotals(): Promise<Map<string, UsageTotals>> {
+    const day = utcDay(new Date());
+    if (!this.totals || this.totalsDay !== day) {
+      this.totalsDay = day;
+      const read: Promise<Map<string, UsageTotals>> = this.readRecords().then(
+        (records) => {
+          const totals = new Map<string, UsageTotals>();
+          records
+            .filter((record) => !record.cached && utcDay(new Date(record.started)) === day)
+            .forEach((record) => addToTotals(totals, record));
+          return totals;
+        },
+        (error) => {
+          // Read the file again on the next call, rather than failing every
+          // call until the day changes
+          if (this.totals === read) this.totals = undefined;
+          log.warning(`Could not read ${this.file}; daily caps are not applied`, { error });
+          return new Map<string, UsageTotals>();
+        }
+      );
+      this.totals = read;
+    }
+    return this.totals;
+  }
+
+  private async readRecords(): Promise<UsageRecord[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    return contents.split("\n").flatMap((line) => {
+      if (!line.trim()) return [];
+      try {
+        return [JSON.parse(line) as UsageRecord];
+      } catch {
+        // Skip a line left incomplete by an interrupted write
+        return [];
+      }
+    });
+  }
+}
+
+function addToTotals(totals: Map<string, UsageTotals>, record: UsageRecord) {
+  const current = totals.get(record.tool) ?? { calls: 0, seconds: 0 };
+  totals.set(record.tool, {
+    calls: current.calls + 1,
+    seconds: current.seconds + Math.max(0, record.wallSeconds - record.queueSeconds),
+  });
+}
+
+// Calls still running count as used, as they will be recorded when they finish
+function capExceeded(
+  tool: string,
+  cap: DailyCap | undefined,
+  totals: Map<string, UsageTotals>,
+  running = 0
+): string | undefined {
+  if (!cap) return undefined;
+  const used = totals.get(tool) ?? { calls: 0, seconds: 0 };
+  const calls = used.calls + running;
+  if (cap.calls !== undefined && calls >= cap.calls) {
+    return `Daily cap reached for ${tool}: ${calls} of ${cap.calls} calls used today. The cap resets at midnight UTC`;
+  }
+  if (cap.seconds !== undefined && used.seconds >= cap.seconds) {
+    return `Daily cap reached for ${tool}: ${Math.round(used.seconds)} of ${cap.seconds} seconds of processing used today. The cap resets at midnight UTC`;
+  }
+  return undefined;
+}
+
+function describeCap(used: UsageTotals | undefined, cap: DailyCap | undefined): string {
+  const calls = used?.calls ?? 0;
+  const seconds = Math.round(used?.seconds ?? 0);
+  const parts = [
+    `${calls}${cap?.calls !== undefined ? ` of ${cap.calls}` : ""} calls`,
+    `${seconds}${cap?.seconds !== undefined ? ` of ${cap.seconds}` : ""}s`,
+  ];
+  return parts.join(", ");
+}
+
+// Size of a call's output: its text, the saved output files, and images,
+// audio and files returned inline. Inline content is usually a copy of a saved
+// file, so it is only counted when no saved file of the same size is left.
+async function outputBytes(
+  result: CallToolResult | undefined,
+  files: string[]
+): Promise<number> {
+  const fileSizes = await filesSizes(files);
+  const unmatched = [...fileSizes];
+  const inlineBytes = (size: number) => {
+    const index = unmatched.indexOf(size);
+    if (index < 0) return size;
+    unmatched.splice(index, 1);
+    return 0;
+  };
+  const contentBytes = (result?.content ?? []).reduce((total, item) => {
+    if (item.type === "text") return total + Buffer.byteLength(item.text);
+    if (item.type === "image") return total + inlineBytes(base64Bytes(item.data));
+    if (item.type === "resource") {
+      const resource = item.resource;
+      if ("blob" in resource && typeof resource.blob === "string") {
+        return total + inlineBytes(base64Bytes(resource.blob));
+      }
+      if ("text" in resource && typeof resource.text === "string") {
+        return total + Buffer.byteLength(resource.text);
+      }
+    }
+    return total;
+  }, 0);
+  return contentBytes + fileSizes.reduce((total, size) => total + size, 0);
+}
+
+// Sizes of the output files saved for a call, skipping any already removed
+async function filesSizes(files: string[]): Promise<number[]> {
+  const sizes = await Promise.all(
+    files.map((file) => fs.stat(file).then((stats) => stats.size, () => undefined))
+  );
+  return sizes.filter((size): size is number => size !== undefined);
+}
+
+function base64Bytes(data: string): number {
+  return Buffer.byteLength(data, "base64");
+}
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -1,4 +1,7 @@
-import { Dirent, promises as fs } from "fs";
+import { createWriteStream, Dirent, mkdirSync, promises as fs } from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
 import path from "path";
 import mime from "mime";
 import { pathToFileURL } from "url";
@@ -21,19 +24,43 @@ export interface ResourceContents {
   blob?: string;
 }
 
+// Directory holding the working directories of HTTP sessions
+const SESSIONS_DIRECTORY = "sessions";
+
 export class WorkingDirectory {
   private readonly MAX_RESOURCE_SIZE = 1024 * 1024 * 2; 
   
   constructor(
     private readonly directory: string,
-    private readonly claudeDesktopMode: boolean = false
+    private readonly claudeDesktopMode: boolean = false,
+    private readonly isSession: boolean = false
   ) {}
 
+  // Working directory of an HTTP session, which is left out of this one's files
+  sessionDirectory(name: string): WorkingDirectory {
+    const directory = path.join(this.directory, SESSIONS_DIRECTORY, name);
+    mkdirSync(directory, { recursive: true });
+    return new WorkingDirectory(directory, this.claudeDesktopMode, true);
+  }
+
   async listFiles(recursive = true): Promise<Dirent[]> {
-    return await fs.readdir(this.directory, {
+    const files = await fs.readdir(this.directory, {
       withFileTypes: true,
       recursive,
     });
+    // Skip internal state such as the result cache, kept in dot-directories,
+    // and the files of HTTP sessions
+    return files.filter((file) => {
+      const fullPath = path.join(file.parentPath || this.directory, file.name);
+      const segments = path.relative(this.directory, fullPath).split(path.sep);
+      if (!this.isSession && segments[0] === SESSIONS_DIRECTORY) return false;
+      return !segments.some((segment) => segment.startsWith("."));
+    });
+  }
+
+  // Directory for the server's own state, hidden from the resource list
+  stateDirectory(name: string): string {
+    return path.join(this.directory, ".mcp-hfspace", name);
   }
 
   async getResourceFile(file: Dirent): Promise<ResourceFile> {
@@ -60,6 +87,18 @@ export class WorkingDirectory {
     await fs.writeFile(filename, Buffer.from(arrayBuffer), { encoding: "binary" });
   }
 
+  // Write a download to a file as it arrives, removing the file if it fails.
+  // Returns the number of bytes written
+  async saveStream(body: WebReadableStream<Uint8Array>, filename: string): Promise<number> {
+    try {
+      await pipeline(Readable.fromWeb(body), createWriteStream(filename));
+    } catch (error) {
+      await fs.rm(filename, { force: true });
+      throw error;
+    }
+    return (await fs.stat(filename)).size;
+  }
+
   getFileUrl(filename: string): string {
     return pathToFileURL(path.resolve(this.directory, filename)).href;
   }
@@ -95,10 +134,12 @@ export class WorkingDirectory {
       filePath = filePath.replace(/^file:(?:\/\/|\.\/)/, "");
     }
 
-    const normalizedFilePath = path.normalize(path.resolve(filePath));
-    const normalizedCwd = path.normalize(this.directory);
+    const normalizedFilePath = path.normalize(path.resolve(this.directory, filePath));
+    const normalizedCwd = path.normalize(path.resolve(this.directory));
 
-    if (!normalizedFilePath.startsWith(normalizedCwd)) {
+    // A sibling such as /work-other shares the prefix of /work, so compare by path
+    const relative = path.relative(normalizedCwd, normalizedFilePath);
+    if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
       throw new Error(`Path ${filePath} is outside of working directory`);
     }
 
@@ -168,8 +209,8 @@ Prefer using the Resource URI for tool parameters which require a file input. UR
     const mimeType = mime.getType(file) || FALLBACK_MIME_TYPE;
 
     const content = this.isMimeTypeText(mimeType)
-      ? { text: await fs.readFile(file, "utf-8") }
-      : { blob: (await fs.readFile(file)).toString("base64") };
+      ? { text: await fs.readFile(validatedPath, "utf-8") }
+      : { blob: (await fs.readFile(validatedPath)).toString("base64") };
 
     return {
       uri: resourceUri,
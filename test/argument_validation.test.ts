@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { validateArguments, type InputSchema } from "../src/argument_validation";
+
+const schema: InputSchema = {
+  properties: {
+    prompt: { type: "string" },
+    steps: { type: "integer", minimum: 1, maximum: 50, default: 28 },
+    guidance: { type: "number" },
+    upscale: { type: "boolean", default: false },
+    ratio: { type: "string", enum: ["1:1", "16:9"] },
+    sizes: { type: "integer", enum: [512, 1024] },
+    styles: { type: "array", items: { type: "string", enum: ["Anime", "Photo"] } },
+    seed: { anyOf: [{ type: "integer" }, { type: "null" }] },
+  },
+  required: ["prompt"],
+};
+
+describe("validateArguments", () => {
+  it("coerces values that can safely be converted", () => {
+    const { values, errors } = validateArguments(
+      {
+        prompt: "a cat",
+        steps: "7",
+        guidance: "3.5",
+        upscale: "TRUE",
+        sizes: "1024",
+        styles: "Anime",
+        seed: "42",
+      },
+      schema
+    );
+
+    expect(errors).toEqual([]);
+    expect(values).toEqual({
+      prompt: "a cat",
+      steps: 7,
+      guidance: 3.5,
+      upscale: true,
+      sizes: 1024,
+      styles: ["Anime"],
+      seed: 42,
+    });
+  });
+
+  it("fills in defaults for missing and null arguments", () => {
+    const { values } = validateArguments({ prompt: "a cat", steps: null, seed: null }, schema);
+
+    expect(values).toEqual({ prompt: "a cat", steps: 28, upscale: false, seed: null });
+  });
+
+  it("reports every invalid argument", () => {
+    const { errors } = validateArguments(
+      {
+        steps: 80,
+        guidance: "high",
+        ratio: "4:3",
+        styles: ["Anime", "Sketch"],
+        seed: 1.5,
+        size: 512,
+      },
+      schema
+    );
+
+    expect(errors).toEqual([
+      "prompt: is required",
+      "steps: must be at most 50, got 80",
+      'guidance: expected a number, got "high"',
+      'ratio: must be one of "1:1", "16:9", got "4:3"',
+      'styles[1]: must be one of "Anime", "Photo", got "Sketch"',
+      "seed: expected an integer or null, got 1.5",
+      "size: is not a parameter of this tool. Expected one of prompt, steps, guidance, upscale, ratio, sizes, styles, seed",
+    ]);
+  });
+
+  it("keeps a value that matches an alternative without coercion", () => {
+    const { values } = validateArguments(
+      { value: "7" },
+      { properties: { value: { anyOf: [{ type: "integer" }, { type: "string" }] } } }
+    );
+
+    expect(values).toEqual({ value: "7" });
+  });
+
+  it("checks the properties of objects and the items of tuples", () => {
+    const { values, errors } = validateArguments(
+      { table: { headers: ["a"], data: [["1", 2]] }, size: [512, "768"] },
+      {
+        properties: {
+          table: {
+            type: "object",
+            properties: {
+              headers: { type: "array", items: { type: "string" } },
+              data: { type: "array", items: { type: "array", items: {} } },
+            },
+          },
+          size: {
+            type: "array",
+            prefixItems: [{ type: "integer" }, { type: "integer" }],
+            minItems: 2,
+            maxItems: 2,
+          },
+        },
+      }
+    );
+
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ table: { headers: ["a"], data: [["1", 2]] }, size: [512, 768] });
+  });
+});
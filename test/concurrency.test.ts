@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Client } from "@gradio/client";
+import { ConcurrencyLimiter } from "../src/concurrency";
+import { SpaceConnection } from "../src/space_connection";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("concurrency limiter", () => {
+  it("limits calls per space and queues the rest in order", () => {
+    const limiter = new ConcurrencyLimiter(() => ({ perSpace: 1, global: 0 }));
+
+    const first = limiter.enqueue("a/flux");
+    const second = limiter.enqueue("a/flux");
+    const third = limiter.enqueue("a/flux");
+    const other = limiter.enqueue("b/sdxl");
+
+    expect([first.granted, second.granted, third.granted, other.granted]).toEqual([
+      true,
+      false,
+      false,
+      true,
+    ]);
+    expect([second.ahead, third.ahead]).toEqual([0, 1]);
+
+    first.release();
+    expect(second.granted).toBe(true);
+    expect(third.ahead).toBe(0);
+  });
+
+  it("applies the global limit across spaces", () => {
+    const limiter = new ConcurrencyLimiter(() => ({ perSpace: 0, global: 2 }));
+
+    const first = limiter.enqueue("a/flux");
+    limiter.enqueue("b/sdxl");
+    const waiting = limiter.enqueue("c/whisper");
+    const later = limiter.enqueue("a/flux");
+
+    expect(waiting.granted).toBe(false);
+    expect(later.ahead).toBe(1);
+
+    first.release();
+    expect(waiting.granted).toBe(true);
+    expect(later.granted).toBe(false);
+  });
+
+  it("gives up a place in the queue when released before it is granted", () => {
+    const limiter = new ConcurrencyLimiter(() => ({ perSpace: 1, global: 0 }));
+    const running = limiter.enqueue("a/flux");
+    const cancelled = limiter.enqueue("a/flux");
+    const waiting = limiter.enqueue("a/flux");
+
+    cancelled.release();
+    expect(waiting.ahead).toBe(0);
+
+    running.release();
+    expect(cancelled.granted).toBe(false);
+    expect(waiting.granted).toBe(true);
+  });
+});
+
+describe("queued submissions", () => {
+  it("report the local queue position until a slot is free", async () => {
+    let finish!: () => void;
+    const finished = new Promise<void>((resolve) => (finish = resolve));
+    vi.spyOn(Client, "connect").mockResolvedValue({
+      submit: vi.fn().mockImplementation(() => ({
+        async *[Symbol.asyncIterator]() {
+          await finished;
+          yield { type: "data", data: ["ok"] };
+        },
+        cancel: vi.fn(),
+      })),
+    } as any);
+    const limiter = new ConcurrencyLimiter(() => ({ perSpace: 1, global: 0 }));
+    const connection = new SpaceConnection("http://localhost:7860/", true, undefined, limiter);
+
+    const first = connection.submit("/predict", {})[Symbol.asyncIterator]();
+    const pending = first.next();
+    const second = connection.submit("/predict", {})[Symbol.asyncIterator]();
+
+    expect((await second.next()).value).toMatchObject({
+      type: "status",
+      queue: true,
+      stage: "pending",
+      position: 0,
+    });
+    finish();
+    expect((await pending).value).toEqual({ type: "data", data: ["ok"] });
+    expect((await first.next()).done).toBe(true);
+    expect((await second.next()).value).toEqual({ type: "data", data: ["ok"] });
+  });
+});
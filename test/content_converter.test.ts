@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { GradioConverter } from "../src/content_converter";
+import { parsePath } from "../src/endpoint_wrapper";
+import type { ApiReturn } from "../src/gradio_api";
+import { WorkingDirectory } from "../src/working_directory";
+
+const endpointPath = parsePath("test/space/predict");
+
+function output(component: string): ApiReturn {
+  return {
+    label: component,
+    type: "",
+    python_type: { type: "filepath", description: "" },
+    component,
+  };
+}
+
+let directory: string;
+let converter: GradioConverter;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+  converter = new GradioConverter(new WorkingDirectory(directory));
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      const extension = url.split(".").pop()!;
+      const contentType =
+        extension === "png" ? "image/png" : "application/octet-stream";
+      return new Response(new Uint8Array([1, 2, 3]), {
+        headers: { "content-type": contentType },
+      });
+    })
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("file output converters", () => {
+  it("saves videos and returns a resource link", async () => {
+    const content = await converter.convert(
+      output("Video"),
+      {
+        video: { url: "https://example.hf.space/file=clip.mp4", orig_name: "clip.mp4" },
+        subtitles: null,
+      } as any,
+      endpointPath
+    );
+
+    expect(content).toHaveLength(1);
+    expect(content[0].type).toBe("resource");
+    const resource = (content[0] as any).resource;
+    expect(resource.uri).toMatch(/^file:.*_Video_.*\.mp4$/);
+    expect(resource.text).toMatch(/video\/mp4/);
+    expect(readdirSync(directory)).toHaveLength(1);
+  });
+
+  it("links every file of a multiple File output", async () => {
+    const content = await converter.convert(
+      output("File"),
+      [
+        { url: "https://example.hf.space/file=a.csv", orig_name: "a.csv" },
+        { url: "https://example.hf.space/file=b.glb", orig_name: "b.glb" },
+      ] as any,
+      endpointPath
+    );
+
+    expect(content.map((item) => item.type)).toEqual(["resource", "resource"]);
+    expect(readdirSync(directory)).toHaveLength(2);
+  });
+
+  it("converts each Gallery item to its own image", async () => {
+    const content = await converter.convert(
+      output("Gallery"),
+      [
+        { image: { url: "https://example.hf.space/file=1.png" }, caption: "first" },
+        { image: { url: "https://example.hf.space/file=2.png" }, caption: null },
+      ] as any,
+      endpointPath
+    );
+
+    expect(content.map((item) => item.type)).toEqual(["image", "text", "image"]);
+    expect(content[0]).toMatchObject({ type: "image", mimeType: "image/png" });
+    expect(content[1]).toEqual({ type: "text", text: "first" });
+  });
+
+  it("removes saved files on request", async () => {
+    await converter.convert(
+      output("Model3D"),
+      { url: "https://example.hf.space/file=mesh.glb", orig_name: "mesh.glb" } as any,
+      endpointPath
+    );
+    expect(readdirSync(directory)).toHaveLength(1);
+
+    await converter.removeSavedFiles();
+    expect(readdirSync(directory)).toHaveLength(0);
+  });
+});
@@ -1,7 +1,20 @@
 
 import { describe, it, expect, vi } from "vitest";
-import { EndpointWrapper, endpointSpecified, parsePath } from "../src/endpoint_wrapper";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { Client } from "@gradio/client";
+import {
+  EndpointWrapper,
+  endpointSpecified,
+  isAllEndpointsPath,
+  parsePath,
+  parseUrlPath,
+  uniqueToolName,
+} from "../src/endpoint_wrapper";
 import type { ApiEndpoint } from "../src/gradio_api";
+import { CHAT_RESET, callConversationTool } from "../src/conversations";
+import { WorkingDirectory } from "../src/working_directory";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 
 // Mock the Client class
@@ -64,7 +77,7 @@ describe("EndpointWrapper parameter mapping", () => {
     // Verify the parameters were mapped correctly
     expect(mockSubmit).toHaveBeenCalledWith("/predict", {
       text_input: "hello"
-    });
+    }, undefined);
   });
 
   it("maps unnamed parameters to their index", async () => {
@@ -105,10 +118,7 @@ describe("EndpointWrapper parameter mapping", () => {
     }, {} as Server);
 
     // Verify parameters were mapped by position
-    expect(mockSubmit).toHaveBeenCalledWith("/predict", {
-      "parameter_0": "hello",
-      "parameter_1": 42
-    });
+    expect(mockSubmit).toHaveBeenCalledWith("/predict", ["hello", 42], undefined);
   });
 
   it("handles mix of named and unnamed parameters", async () => {
@@ -149,11 +159,105 @@ describe("EndpointWrapper parameter mapping", () => {
       method: "tools/call"
     }, {} as Server);
 
-    // Verify mixed parameter mapping
+    // Gradio cannot match the unnamed parameter, so all are passed by position
+    expect(mockSubmit).toHaveBeenCalledWith("/predict", ["hello", 42], undefined);
+  });
+});
+
+describe("EndpointWrapper unnamed endpoints", () => {
+  it("submits to the endpoint index with positional data", async () => {
+    const endpoint = createTestEndpoint([
+      {
+        label: "Image",
+        type: "",
+        python_type: { type: "str", description: "" },
+        component: "Textbox"
+      },
+      {
+        label: "Image",
+        type: "number",
+        python_type: { type: "float", description: "" },
+        component: "Number"
+      }
+    ]);
+
+    const wrapper = new EndpointWrapper(
+      parsePath("test/space/2"),
+      endpoint,
+      MockClient as any,
+    );
+    mockSubmit.mockImplementation(async function* () {
+      yield { type: "data", data: ["response"] };
+    });
+
+    await wrapper.call({
+      method: "tools/call",
+      params: { name: "test", arguments: { Image: "first", Image_2: 2 } }
+    }, {} as Server);
+
+    expect(mockSubmit).toHaveBeenCalledWith(2, ["first", 2], undefined);
+  });
+});
+
+describe("EndpointWrapper argument validation", () => {
+  const endpoint = createTestEndpoint([
+    {
+      label: "Prompt",
+      parameter_name: "prompt",
+      type: "string",
+      python_type: { type: "str", description: "" },
+      component: "Textbox"
+    },
+    {
+      label: "Steps",
+      parameter_name: "steps",
+      parameter_has_default: true,
+      parameter_default: 28,
+      type: "number",
+      python_type: { type: "int", description: "" },
+      component: "Slider"
+    }
+  ]);
+
+  it("submits coerced arguments with defaults filled in", async () => {
+    const wrapper = new EndpointWrapper(
+      parsePath("test/space/predict"),
+      endpoint,
+      MockClient as any,
+    );
+    mockSubmit.mockImplementation(async function* () {
+      yield { type: "data", data: ["response"] };
+    });
+
+    await wrapper.call({
+      method: "tools/call",
+      params: { name: "test", arguments: { prompt: 42 } }
+    }, {} as Server);
+
     expect(mockSubmit).toHaveBeenCalledWith("/predict", {
-      text_input: "hello",
-      "parameter_1": 42
+      prompt: "42",
+      steps: 28
+    }, undefined);
+  });
+
+  it("rejects invalid arguments without calling the space", async () => {
+    const wrapper = new EndpointWrapper(
+      parsePath("test/space/predict"),
+      endpoint,
+      MockClient as any,
+    );
+    mockSubmit.mockClear();
+
+    await expect(
+      wrapper.call({
+        method: "tools/call",
+        params: { name: "test", arguments: { steps: "many" } }
+      }, {} as Server)
+    ).rejects.toMatchObject({
+      code: "INVALID_ARGUMENTS",
+      message: 'Invalid arguments for space-predict:\n- prompt: is required\n- steps: expected an integer, got "many"',
     });
+    expect(mockSubmit).not.toHaveBeenCalled();
   });
 });
 
@@ -188,4 +292,357 @@ describe("endpoint and tool naming works",() => {
     expect(endpoint.mcpToolName).toBe("bark-3");
     expect(endpoint.mcpDisplayName).toBe("bark endpoint /3");
   }
-})
\ No newline at end of file
+})
+
+describe("all endpoints mode", () => {
+  it("detects wildcard space paths", () => {
+    expect(isAllEndpointsPath("owner/space/*")).toBe(true);
+    expect(isAllEndpointsPath("owner/space")).toBe(false);
+    expect(isAllEndpointsPath("owner/space/predict")).toBe(false);
+  });
+
+  it("keeps tool names unique and within 64 characters", () => {
+    const long = "a".repeat(64);
+    const taken = new Set([long, "space-predict"]);
+    expect(uniqueToolName("space-infer", taken)).toBe("space-infer");
+    expect(uniqueToolName("space-predict", taken)).toBe("space-predict_2");
+    const unique = uniqueToolName(long, taken);
+    expect(unique).toHaveLength(64);
+    expect(unique.endsWith("_2")).toBe(true);
+  });
+
+  it("creates a tool for every named and valid unnamed endpoint", async () => {
+    const viewApi = vi.fn().mockResolvedValue({
+      named_endpoints: {
+        "/synthesize": createTestEndpoint([]),
+        "/list_voices": createTestEndpoint([]),
+      },
+      unnamed_endpoints: {
+        "0": createTestEndpoint([
+          {
+            label: "Text",
+            type: "string",
+            python_type: { type: "str", description: "" },
+            component: "Textbox",
+          },
+        ]),
+        "1": createTestEndpoint([]),
+      },
+    });
+    const client = { submit: mockSubmit, view_api: viewApi };
+    const connect = vi.spyOn(Client, "connect").mockResolvedValue(client as any);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ sdk: "gradio", runtime: { stage: "RUNNING" } }),
+      })
+    );
+
+    try {
+      const wrappers = await EndpointWrapper.createEndpoints(
+        "owner/tts/*",
+        new WorkingDirectory(process.cwd())
+      );
+
+      expect(wrappers.map((w) => w.toolDefinition().name)).toEqual([
+        "tts-synthesize",
+        "tts-list_voices",
+        "tts-0",
+      ]);
+      expect(connect).toHaveBeenCalledTimes(1);
+    } finally {
+      connect.mockRestore();
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+
+describe("self-hosted Gradio apps", () => {
+  it("derives tool names from host and endpoint", () => {
+    const endpoint = parseUrlPath("http://gpu-box:7860/predict");
+    expect(endpoint.owner).toBe("gpu-box");
+    expect(endpoint.space).toBe("gpu-box:7860");
+    expect(endpoint.endpoint).toBe("/predict");
+    expect(endpoint.mcpToolName).toBe("gpu-box_7860-predict");
+    expect(endpoint.mcpDisplayName).toBe(
+      "http://gpu-box:7860/ endpoint /predict"
+    );
+  });
+
+  it("detects whether a URL names an endpoint", () => {
+    expect(endpointSpecified("http://localhost:7860/predict")).toBe(true);
+    expect(endpointSpecified("http://localhost:7860/")).toBe(false);
+    expect(endpointSpecified("http://localhost:7860")).toBe(false);
+  });
+
+  it("connects directly without checking Hub metadata", async () => {
+    const viewApi = vi.fn().mockResolvedValue({
+      named_endpoints: { "/predict": createTestEndpoint([]) },
+      unnamed_endpoints: {},
+    });
+    const connect = vi
+      .spyOn(Client, "connect")
+      .mockResolvedValue({ submit: mockSubmit, view_api: viewApi } as any);
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      const wrapper = await EndpointWrapper.createEndpoint(
+        "http://localhost:7860/",
+        new WorkingDirectory(process.cwd())
+      );
+
+      expect(wrapper.toolDefinition().name).toBe("localhost_7860-predict");
+      expect(connect).toHaveBeenCalledWith(
+        "http://localhost:7860/",
+        expect.objectContaining({ hf_token: undefined })
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      connect.mockRestore();
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+
+describe("request cancellation", () => {
+  it("cancels the Gradio submission and stops progress", async () => {
+    const controller = new AbortController();
+    let release!: () => void;
+    const cancelled = new Promise<void>((resolve) => (release = resolve));
+    const submission = {
+      async *[Symbol.asyncIterator]() {
+        yield { type: "status", stage: "pending", queue: true, position: 1 };
+        controller.abort();
+        await cancelled;
+        yield { type: "status", stage: "generating", queue: false };
+      },
+      cancel: vi.fn(async () => release()),
+    };
+    const notification = vi.fn();
+    const wrapper = new EndpointWrapper(
+      parsePath("test/space/predict"),
+      createTestEndpoint([]),
+      { submit: vi.fn().mockReturnValue(submission) } as any,
+      new WorkingDirectory(process.cwd())
+    );
+
+    await expect(
+      wrapper.handleToolCall(
+        {},
+        "token",
+        { notification } as any,
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow(/cancelled/);
+    expect(submission.cancel).toHaveBeenCalled();
+    expect(notification).toHaveBeenCalledTimes(1);
+  });
+});
+
+
+describe("generator endpoints", () => {
+  function createGeneratorWrapper(overrides = {}) {
+    const submission = {
+      async *[Symbol.asyncIterator]() {
+        yield { type: "status", stage: "generating", queue: false };
+        yield { type: "data", data: ["Hel"] };
+        yield { type: "data", data: ["Hello"] };
+        yield { type: "data", data: ["Hello world"] };
+        yield { type: "status", stage: "complete", queue: false };
+      },
+      cancel: vi.fn(),
+    };
+    const endpoint = createTestEndpoint([]);
+    endpoint.type.generator = true;
+    return new EndpointWrapper(
+      parsePath("test/space/chat"),
+      endpoint,
+      { submit: vi.fn().mockReturnValue(submission) } as any,
+      new WorkingDirectory(process.cwd()),
+      overrides
+    );
+  }
+
+  it("sends partial results as progress notifications", async () => {
+    const notification = vi.fn();
+    const result = await createGeneratorWrapper().handleToolCall(
+      {},
+      "token",
+      { notification } as any
+    );
+
+    expect(result.content).toEqual([
+      { type: "text", text: "Output: Hello world" },
+    ]);
+    const messages = notification.mock.calls.map(([n]) => n.params.message);
+    expect(messages).toEqual(
+      expect.arrayContaining(["Hel", "Hello", "Hello world"])
+    );
+  });
+
+  it("returns every yielded value when configured", async () => {
+    const result = await createGeneratorWrapper({
+      generatorResults: "all",
+    }).handleToolCall({}, undefined, {} as Server);
+
+    expect(result.content).toEqual([
+      { type: "text", text: "Result 1 of 3" },
+      { type: "text", text: "Output: Hel" },
+      { type: "text", text: "Result 2 of 3" },
+      { type: "text", text: "Output: Hello" },
+      { type: "text", text: "Result 3 of 3" },
+      { type: "text", text: "Output: Hello world" },
+    ]);
+  });
+
+  it("removes the files of every value when cancelled while converting", async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+    const controller = new AbortController();
+    let downloads = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        if (++downloads === 2) controller.abort();
+        return new Response(new Uint8Array([1, 2, 3]), {
+          headers: { "content-type": "image/png" },
+        });
+      })
+    );
+    const submission = {
+      async *[Symbol.asyncIterator]() {
+        yield { type: "data", data: [{ url: "https://test.hf.space/file=1.png" }] };
+        yield { type: "data", data: [{ url: "https://test.hf.space/file=2.png" }] };
+      },
+      cancel: vi.fn(),
+    };
+    const endpoint = createTestEndpoint([]);
+    endpoint.type.generator = true;
+    endpoint.returns = [
+      {
+        label: "Image",
+        type: "",
+        python_type: { type: "filepath", description: "" },
+        component: "Image",
+      },
+    ];
+    const wrapper = new EndpointWrapper(
+      parsePath("test/space/draw"),
+      endpoint,
+      { submit: vi.fn().mockReturnValue(submission) } as any,
+      new WorkingDirectory(directory),
+      { generatorResults: "all" }
+    );
+
+    try {
+      await expect(
+        wrapper.handleToolCall({}, undefined, {} as Server, {
+          signal: controller.signal,
+        })
+      ).rejects.toThrow(/cancelled/);
+      expect(downloads).toBe(2);
+      expect(readdirSync(directory)).toEqual([]);
+    } finally {
+      vi.unstubAllGlobals();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("chat endpoints", () => {
+  function createChatWrapper(replies: string[]) {
+    const submit = vi.fn().mockImplementation(() => ({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "data", data: [replies.shift()] };
+      },
+      cancel: vi.fn(),
+    }));
+    const endpoint = createTestEndpoint([
+      {
+        label: "Message",
+        parameter_name: "message",
+        type: "string",
+        python_type: { type: "str", description: "" },
+        component: "Textbox",
+      },
+      {
+        label: "Chatbot",
+        parameter_name: "history",
+        parameter_has_default: true,
+        parameter_default: [],
+        type: "array",
+        python_type: { type: "List[Dict]", description: "" },
+        component: "Chatbot",
+      },
+    ]);
+    const wrapper = new EndpointWrapper(
+      parsePath("test/space/chat"),
+      endpoint,
+      { submit } as any,
+      new WorkingDirectory(process.cwd())
+    );
+    return { wrapper, submit };
+  }
+
+  function chatRequest(args: Record<string, unknown>) {
+    return {
+      method: "tools/call" as const,
+      params: { name: "chat", arguments: args },
+    };
+  }
+
+  it("replaces the history parameter with a conversation ID", () => {
+    const { wrapper } = createChatWrapper([]);
+    const schema = wrapper.toolDefinition().inputSchema;
+
+    expect(schema.properties).not.toHaveProperty("history");
+    expect(schema.properties).toHaveProperty("conversation_id");
+  });
+
+  it("passes the history of earlier turns back to the space", async () => {
+    const { wrapper, submit } = createChatWrapper(["Hi!", "Fine", "Hello"]);
+    const server = {} as Server;
+
+    await wrapper.call(chatRequest({ message: "Hello" }), server);
+    await wrapper.call(chatRequest({ message: "How are you?" }), server);
+    await wrapper.call(
+      chatRequest({ message: "Hi", conversation_id: "other" }),
+      server
+    );
+
+    expect(submit.mock.calls[1][1]).toEqual({
+      message: "How are you?",
+      history: [["Hello", "Hi!"]],
+    });
+    expect(submit.mock.calls[2][1]).toEqual({ message: "Hi", history: [] });
+    expect(wrapper.conversations!.list()).toEqual([
+      { conversationId: "default", turns: 2 },
+      { conversationId: "other", turns: 1 },
+    ]);
+  });
+
+  it("keeps the conversations of each session apart", async () => {
+    const { wrapper, submit } = createChatWrapper(["Hi alice", "Hi bob", "Again"]);
+    const server = {} as Server;
+
+    await wrapper.call(chatRequest({ message: "Hello" }), server, { session: "alice" });
+    await wrapper.call(chatRequest({ message: "Hello" }), server, { session: "bob" });
+    await wrapper.call(chatRequest({ message: "Again" }), server, { session: "bob" });
+
+    expect(submit.mock.calls[1][1]).toEqual({ message: "Hello", history: [] });
+    expect(submit.mock.calls[2][1]).toEqual({
+      message: "Again",
+      history: [["Hello", "Hi bob"]],
+    });
+    expect(
+      callConversationTool(CHAT_RESET, {}, new Map([["chat", wrapper.conversations!]]), "bob")
+    ).toEqual({ content: [{ type: "text", text: "Reset 1 conversation(s)." }] });
+    expect(wrapper.conversations!.list("alice")).toEqual([
+      { conversationId: "default", turns: 1 },
+    ]);
+    expect(wrapper.conversations!.list("bob")).toEqual([]);
+  });
+});
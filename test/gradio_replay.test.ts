@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Client } from "@gradio/client";
+import { EndpointWrapper } from "../src/endpoint_wrapper";
+import { WorkingDirectory } from "../src/working_directory";
+import {
+  isRecording,
+  recordFixture,
+  replayFixture,
+  type Replay,
+} from "./support/gradio_fixture";
+
+const fixturesDirectory = fileURLToPath(new URL("./fixtures", import.meta.url));
+const fixture = (name: string) => path.join(fixturesDirectory, name);
+
+// With GRADIO_RECORD=1, the fixtures are recorded again from the live spaces
+beforeAll(async () => {
+  if (!isRecording()) return;
+  for (const name of readdirSync(fixturesDirectory)) {
+    await recordFixture(fixture(name));
+  }
+}, 600_000);
+
+let directory: string | undefined;
+let replay: Replay | undefined;
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await replay?.close();
+  if (directory) rmSync(directory, { recursive: true, force: true });
+  replay = directory = undefined;
+});
+
+// Create the tool for an endpoint of a replayed fixture, served from the local server
+async function replayTool(name: string, endpoint: string) {
+  replay = await replayFixture(fixture(name));
+  vi.spyOn(Client, "connect").mockResolvedValue(replay.client as any);
+  directory = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+  const wrapper = await EndpointWrapper.createEndpoint(
+    `${replay.url}/${endpoint}`,
+    new WorkingDirectory(directory)
+  );
+  return { wrapper, client: replay.client, directory };
+}
+
+function callRequest(name: string, args: Record<string, unknown>) {
+  return {
+    method: "tools/call" as const,
+    params: { name, arguments: args, _meta: { progressToken: "token" } },
+  };
+}
+
+describe("replayed tool calls", () => {
+  it("generates an image, reporting queue progress", async () => {
+    const { wrapper, client, directory } = await replayTool("flux-schnell", "infer");
+    const notification = vi.fn();
+
+    const result = await wrapper.call(
+      callRequest(wrapper.toolDefinition().name, { prompt: "a red apple" }),
+      { notification } as any
+    );
+
+    expect(client.submitted).toEqual([
+      {
+        endpoint: "/infer",
+        data: { prompt: "a red apple", seed: 0, randomize_seed: true, width: 1024 },
+      },
+    ]);
+    const image = readFileSync(fixture("flux-schnell/files/0_image.png"));
+    expect(result.content).toEqual([
+      { type: "image", data: image.toString("base64"), mimeType: "image/png" },
+      { type: "text", text: "Seed: 1840295034" },
+    ]);
+    expect(readdirSync(directory)).toEqual([expect.stringMatching(/\.png$/)]);
+    const progress = notification.mock.calls.map(([message]) => message.params);
+    expect(progress).toContainEqual(expect.objectContaining({ progressToken: "token" }));
+  });
+
+  it("passes unnamed parameters in order and saves the audio", async () => {
+    const { wrapper, client, directory } = await replayTool("parler-tts", "predict");
+
+    const result = await wrapper.call(
+      callRequest(wrapper.toolDefinition().name, {
+        "Input Text": "Hello there",
+        Description: "A calm male voice",
+      }),
+      { notification: vi.fn() } as any
+    );
+
+    expect(client.submitted[0].data).toEqual(["Hello there", "A calm male voice"]);
+    expect(result.content).toEqual([
+      expect.objectContaining({
+        type: "resource",
+        resource: expect.objectContaining({ uri: expect.stringMatching(/\.wav$/) }),
+      }),
+    ]);
+    expect(readdirSync(directory)).toEqual([expect.stringMatching(/\.wav$/)]);
+  });
+
+  it("fails calls that were not recorded", async () => {
+    const { wrapper } = await replayTool("flux-schnell", "infer");
+
+    await expect(
+      wrapper.call(callRequest(wrapper.toolDefinition().name, { prompt: "a green apple" }), {
+        notification: vi.fn(),
+      } as any)
+    ).rejects.toThrow(/No recorded call to \/infer/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type http from "node:http";
+import type { AddressInfo } from "node:net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { startHttpServer, type HttpSession } from "../src/http_transport";
+
+let httpServer: http.Server | undefined;
+
+afterEach(async () => {
+  httpServer?.closeAllConnections();
+  await new Promise((resolve) => httpServer?.close(resolve));
+  httpServer = undefined;
+});
+
+async function start(authToken?: string, onclose?: () => void) {
+  const sessions: HttpSession[] = [];
+  httpServer = await startHttpServer(
+    { host: "127.0.0.1", port: 0, authToken },
+    async (session) => {
+      sessions.push(session);
+      const server = new Server(
+        { name: "test", version: "0.0.0" },
+        { capabilities: {} }
+      );
+      server.onclose = onclose;
+      return server;
+    }
+  );
+  const { port } = httpServer.address() as AddressInfo;
+  return { baseUrl: `http://127.0.0.1:${port}`, sessions };
+}
+
+async function readEndpointEvent(response: Response): Promise<string> {
+  const reader = response.body!.getReader();
+  const { value } = await reader.read();
+  await reader.cancel();
+  return new TextDecoder().decode(value);
+}
+
+describe("HTTP/SSE transport", () => {
+  it("opens a session per SSE connection", async () => {
+    const { baseUrl, sessions } = await start();
+
+    const first = await fetch(`${baseUrl}/sse?workspace=alice`);
+    const second = await fetch(`${baseUrl}/sse`);
+
+    expect(first.status).toBe(200);
+    expect(await readEndpointEvent(first)).toMatch(
+      /event: endpoint\ndata: \/messages\?sessionId=/
+    );
+    expect(second.status).toBe(200);
+    await second.body?.cancel();
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0].workspace).toBe("alice");
+    expect(sessions[0].id).not.toBe(sessions[1].id);
+  });
+
+  it("keeps the close handler of the session's server", async () => {
+    const onclose = vi.fn();
+    const { baseUrl, sessions } = await start(undefined, onclose);
+
+    const response = await fetch(`${baseUrl}/sse`);
+    await readEndpointEvent(response);
+
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalledTimes(1));
+    const closed = await fetch(`${baseUrl}/messages?sessionId=${sessions[0].id}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    expect(closed.status).toBe(404);
+  });
+
+  it("rejects requests without the bearer token", async () => {
+    const { baseUrl } = await start("secret");
+
+    const missing = await fetch(`${baseUrl}/sse`);
+    expect(missing.status).toBe(401);
+
+    const wrong = await fetch(`${baseUrl}/sse`, {
+      headers: { Authorization: "Bearer nope" },
+    });
+    expect(wrong.status).toBe(401);
+
+    const valid = await fetch(`${baseUrl}/sse`, {
+      headers: { Authorization: "Bearer secret" },
+    });
+    expect(valid.status).toBe(200);
+    await valid.body?.cancel();
+  });
+
+  it("returns 404 for unknown sessions", async () => {
+    const { baseUrl } = await start();
+
+    const response = await fetch(`${baseUrl}/messages?sessionId=missing`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@gradio/client";
+import { searchSpaces } from "../src/hub_search";
+
+const spaces = [
+  {
+    id: "alice/flux",
+    likes: 120,
+    sdk: "gradio",
+    tags: ["gradio", "text-to-image", "region:us"],
+    runtime: { stage: "RUNNING", hardware: { current: "zero-a10g" } },
+  },
+  {
+    id: "bob/sleepy",
+    likes: 80,
+    sdk: "gradio",
+    tags: ["gradio", "text-to-image"],
+    runtime: { stage: "SLEEPING", hardware: { current: null } },
+  },
+  {
+    id: "carol/streamlit-app",
+    likes: 300,
+    sdk: "streamlit",
+    runtime: { stage: "RUNNING" },
+  },
+  {
+    id: "dave/unloved",
+    likes: 1,
+    sdk: "gradio",
+    runtime: { stage: "RUNNING" },
+  },
+];
+
+let hub: http.Server;
+let hubUrl: string;
+const requests: URL[] = [];
+
+beforeAll(async () => {
+  hub = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://localhost");
+    requests.push(url);
+    res.setHeader("Content-Type", "application/json");
+    const host = url.pathname.match(/^\/api\/spaces\/(\w+)\/([\w-]+)\/host$/);
+    if (host) {
+      res.end(JSON.stringify({ host: `https://${host[1]}-${host[2]}.hf.space` }));
+    } else if (url.pathname === "/api/spaces") {
+      res.end(JSON.stringify(spaces));
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => hub.listen(0, "127.0.0.1", resolve));
+  hubUrl = `http://127.0.0.1:${(hub.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => hub.close(resolve));
+});
+
+function text(result: Awaited<ReturnType<typeof searchSpaces>>): string {
+  return (result.content[0] as any).text;
+}
+
+describe("search-spaces", () => {
+  it("queries the Hub and filters by SDK, stage and likes", async () => {
+    const result = await searchSpaces(
+      { query: "flux", task: "text-to-image", min_likes: 10, include_endpoints: false },
+      { hubUrl }
+    );
+
+    expect(text(result)).toBe(
+      "alice/flux (120 likes, RUNNING, zero-a10g)\nTags: text-to-image"
+    );
+    const query = requests.at(-1)!.searchParams;
+    expect(query.get("search")).toBe("flux");
+    expect(query.get("filter")).toBe("text-to-image");
+    expect(query.getAll("expand[]")).toContain("runtime");
+  });
+
+  it("includes sleeping spaces when asked", async () => {
+    const result = await searchSpaces(
+      { stage: "any", min_likes: 10, include_endpoints: false },
+      { hubUrl }
+    );
+
+    expect(text(result)).toMatch(/alice\/flux[\s\S]*bob\/sleepy/);
+  });
+
+  function mockClient() {
+    const close = vi.fn();
+    const connect = vi.spyOn(Client, "connect").mockResolvedValue({
+      view_api: vi.fn().mockResolvedValue({
+        named_endpoints: {
+          "/infer": { parameters: [{ parameter_name: "prompt" }, { label: "Seed" }] },
+        },
+        unnamed_endpoints: {},
+      }),
+      close,
+    } as any);
+    return { connect, close };
+  }
+
+  it("summarizes the endpoints of each candidate", async () => {
+    const { connect, close } = mockClient();
+
+    const result = await searchSpaces({ min_likes: 10 }, { hubUrl });
+
+    expect(text(result)).toContain("Endpoints: /infer(prompt, Seed)");
+    // The host is looked up on the configured Hub
+    expect(requests.map((url) => url.pathname)).toContain("/api/spaces/alice/flux/host");
+    expect(connect).toHaveBeenCalledWith("https://alice-flux.hf.space", expect.anything());
+    expect(close).toHaveBeenCalledTimes(1);
+    connect.mockRestore();
+  });
+
+  it("does not read the API of spaces that are not running", async () => {
+    const { connect } = mockClient();
+
+    const result = await searchSpaces({ stage: "any", min_likes: 10 }, { hubUrl });
+
+    expect(text(result)).toContain(
+      "bob/sleepy (80 likes, SLEEPING)\nTags: text-to-image\nEndpoints: not read, the space is not running"
+    );
+    expect(connect).toHaveBeenCalledTimes(1);
+    connect.mockRestore();
+  });
+
+  it("reports Hub errors", async () => {
+    const result = await searchSpaces({}, { hubUrl: `${hubUrl}/missing` });
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import { EndpointWrapper, parsePath } from "../src/endpoint_wrapper";
+import type { ApiEndpoint } from "../src/gradio_api";
+import { JobManager, JOB_CANCEL, JOB_RESULT, JOB_STATUS } from "../src/job_manager";
+import { WorkingDirectory } from "../src/working_directory";
+
+const endpoint: ApiEndpoint = {
+  parameters: [
+    {
+      label: "Prompt",
+      parameter_name: "prompt",
+      type: "string",
+      python_type: { type: "str", description: "" },
+      component: "Textbox",
+    },
+  ],
+  returns: [
+    {
+      label: "Output",
+      type: "string",
+      python_type: { type: "str", description: "" },
+      component: "Textbox",
+    },
+  ],
+  type: { generator: false, cancel: true },
+};
+
+function createWrapper(submission: AsyncIterable<unknown> & { cancel: () => Promise<void> }) {
+  const client = { submit: vi.fn().mockReturnValue(submission) };
+  return new EndpointWrapper(
+    parsePath("test/space/predict"),
+    endpoint,
+    client as any,
+    new WorkingDirectory(process.cwd()),
+    { async: true }
+  );
+}
+
+function jobIdFrom(text: string): string {
+  return text.match(/job ([0-9a-f-]{36})/)![1];
+}
+
+describe("background jobs", () => {
+  it("returns a job ID and later the converted result", async () => {
+    let finish!: () => void;
+    const finished = new Promise<void>((resolve) => (finish = resolve));
+    const submission = {
+      async *[Symbol.asyncIterator]() {
+        yield { type: "status", stage: "pending", queue: true, position: 2 };
+        await finished;
+        yield { type: "data", data: ["done"] };
+      },
+      cancel: vi.fn(),
+    };
+    const jobs = new JobManager();
+    const wrapper = createWrapper(submission);
+
+    const started = await jobs.start(wrapper, { prompt: "hi" }, new WorkingDirectory(process.cwd()));
+    const jobId = jobIdFrom((started.content[0] as any).text);
+
+    await vi.waitFor(async () => {
+      const status = await jobs.call(JOB_STATUS, { job_id: jobId });
+      expect((status.content[0] as any).text).toMatch(/running .*queued at position 2/);
+    });
+
+    finish();
+    await vi.waitFor(async () => {
+      const result = await jobs.call(JOB_RESULT, { job_id: jobId });
+      expect(result.content).toEqual([{ type: "text", text: "Output: done" }]);
+    });
+  });
+
+  it("cancels the Gradio submission", async () => {
+    let release!: () => void;
+    const cancelled = new Promise<void>((resolve) => (release = resolve));
+    const submission = {
+      async *[Symbol.asyncIterator]() {
+        await cancelled;
+      },
+      cancel: vi.fn(async () => release()),
+    };
+    const jobs = new JobManager();
+    const started = await jobs.start(
+      createWrapper(submission),
+      { prompt: "hi" },
+      new WorkingDirectory(process.cwd())
+    );
+    const jobId = jobIdFrom((started.content[0] as any).text);
+
+    const result = await jobs.call(JOB_CANCEL, { job_id: jobId });
+    expect((result.content[0] as any).text).toBe(`Job ${jobId} was cancelled`);
+    expect(submission.cancel).toHaveBeenCalled();
+
+    const status = await jobs.call(JOB_STATUS, { job_id: jobId });
+    expect((status.content[0] as any).text).toMatch(/cancelled/);
+  });
+
+  it("reports unknown jobs", async () => {
+    const result = await new JobManager().call(JOB_RESULT, { job_id: "nope" });
+    expect(result.isError).toBe(true);
+  });
+
+  it("keeps the jobs of each session to itself", async () => {
+    const submission = {
+      async *[Symbol.asyncIterator]() {
+        yield { type: "data", data: ["done"] };
+      },
+      cancel: vi.fn(),
+    };
+    const jobs = new JobManager();
+    const started = await jobs.start(
+      createWrapper(submission),
+      { prompt: "hi" },
+      new WorkingDirectory(process.cwd()),
+      undefined,
+      "alice"
+    );
+    const jobId = jobIdFrom((started.content[0] as any).text);
+
+    const listed = await jobs.call(JOB_STATUS, {}, "bob");
+    expect((listed.content[0] as any).text).toBe("No jobs.");
+    for (const tool of [JOB_STATUS, JOB_RESULT, JOB_CANCEL]) {
+      const result = await jobs.call(tool, { job_id: jobId }, "bob");
+      expect(result).toMatchObject({ isError: true, content: [{ text: `Unknown job: ${jobId}` }] });
+    }
+    expect(submission.cancel).not.toHaveBeenCalled();
+
+    const own = await jobs.call(JOB_STATUS, {}, "alice");
+    expect((own.content[0] as any).text).toContain(jobId);
+  });
+});
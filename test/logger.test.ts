@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  addLogSink,
+  configureLogging,
+  createLogger,
+  loggingMessage,
+  withLogSession,
+  type LogEntry,
+} from "../src/logger";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  configureLogging({ level: "info" });
+});
+
+describe("logger", () => {
+  it("writes entries at or above the level to stderr", () => {
+    const write = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    configureLogging({ level: "warning" });
+    const log = createLogger("test");
+
+    log.info("hidden");
+    log.error("Connection failed", { space: "a/b" });
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith(
+      '[ERROR] test: Connection failed {"space":"a/b"}\n'
+    );
+  });
+
+  it("sends entries to added sinks, with errors as their message", () => {
+    vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const entries: LogEntry[] = [];
+    const remove = addLogSink({ level: "debug", write: (entry) => entries.push(entry) });
+
+    createLogger("test").debug("Retrying", { error: new Error("Queue is full") });
+    remove();
+    createLogger("test").debug("Not sent");
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        level: "debug",
+        logger: "test",
+        message: "Retrying",
+        data: { error: "Queue is full" },
+      }),
+    ]);
+  });
+
+  it("only sends the entries of a session to its own sinks", async () => {
+    vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const messages = (session?: string) => {
+      const received: string[] = [];
+      const remove = addLogSink({
+        level: "info",
+        session,
+        write: (entry) => received.push(entry.message),
+      });
+      return { received, remove };
+    };
+    const alice = messages("alice");
+    const bob = messages("bob");
+    const all = messages();
+    const log = createLogger("test");
+
+    await withLogSession("alice", async () => {
+      await Promise.resolve();
+      log.warning("Space is sleeping");
+    });
+    log.warning("Still connecting");
+    [alice, bob, all].forEach(({ remove }) => remove());
+
+    expect(alice.received).toEqual(["Space is sleeping", "Still connecting"]);
+    expect(bob.received).toEqual(["Still connecting"]);
+    expect(all.received).toEqual(["Space is sleeping", "Still connecting"]);
+  });
+
+  it("writes JSON lines to the log file", () => {
+    vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const directory = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+    const file = path.join(directory, "server.log");
+    configureLogging({ level: "info", file });
+
+    createLogger("test").warning("Space is sleeping");
+
+    const [line] = readFileSync(file, "utf8").trim().split("\n");
+    expect(JSON.parse(line)).toMatchObject({
+      level: "warning",
+      logger: "test",
+      message: "Space is sleeping",
+    });
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("converts entries to MCP log messages", () => {
+    const entry: LogEntry = {
+      time: new Date(),
+      level: "error",
+      logger: "space_connection",
+      message: "Could not connect to a/b",
+      data: { space: "a/b" },
+    };
+
+    expect(loggingMessage(entry)).toEqual({
+      level: "error",
+      logger: "space_connection",
+      data: { message: "Could not connect to a/b", space: "a/b" },
+    });
+    expect(loggingMessage({ ...entry, data: undefined }).data).toBe(
+      "Could not connect to a/b"
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { EndpointWrapper } from "../src/endpoint_wrapper";
+import { WorkingDirectory } from "../src/working_directory";
+import {
+  MockGradioError,
+  startMockGradioServer,
+  type MockEndpoint,
+  type MockGradioServer,
+} from "./support/mock_gradio_server";
+
+// A 1x1 transparent PNG
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  "base64"
+);
+
+const prompt = {
+  label: "Prompt",
+  parameter_name: "prompt",
+  component: "Textbox",
+  python_type: "str",
+};
+const text = { label: "Output", component: "Textbox", python_type: "str" };
+
+let server: MockGradioServer | undefined;
+let directory: string | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  if (directory) rmSync(directory, { recursive: true, force: true });
+  server = directory = undefined;
+});
+
+// Start the mock app and create the tool for one of its endpoints
+async function mockTool(endpoints: MockEndpoint[], endpoint: string) {
+  server = await startMockGradioServer(endpoints);
+  directory = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+  const wrapper = await EndpointWrapper.createEndpoint(
+    `${server.url}/${endpoint}`,
+    new WorkingDirectory(directory)
+  );
+  return { wrapper, server, directory };
+}
+
+async function callTool(
+  wrapper: EndpointWrapper,
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+) {
+  const notification = vi.fn();
+  const result = await wrapper.call(
+    {
+      method: "tools/call",
+      params: {
+        name: wrapper.toolDefinition().name,
+        arguments: args,
+        _meta: { progressToken: "token" },
+      },
+    },
+    { notification } as any,
+    { signal }
+  );
+  const progress = notification.mock.calls.map(([message]) => message.params);
+  return { result, progress };
+}
+
+describe("mock Gradio server", () => {
+  it("runs a job through the queue, reporting progress", async () => {
+    const { wrapper, server } = await mockTool(
+      [
+        {
+          name: "shout",
+          parameters: [
+            prompt,
+            { label: "Times", parameter_name: "times", component: "Number", python_type: "int", default: 2 },
+          ],
+          returns: [text],
+          handler: ([value, times], job) => {
+            job.progress(0, 2, "Thinking");
+            job.progress(1, 2, "Shouting");
+            return [String(value).toUpperCase().repeat(Number(times))];
+          },
+        },
+      ],
+      "shout"
+    );
+
+    const { result, progress } = await callTool(wrapper, { prompt: "hi" });
+
+    expect(server.calls).toEqual([{ endpoint: "/shout", data: ["hi", 2] }]);
+    expect(result.content).toEqual([{ type: "text", text: "Output: HIHI" }]);
+    expect(progress.map((params) => params.message)).toEqual(
+      expect.arrayContaining(["Thinking", "Shouting"])
+    );
+    expect(progress.at(-1)).toMatchObject({ progress: 100 });
+  });
+
+  it("reports the message of a failed job", async () => {
+    const { wrapper } = await mockTool(
+      [
+        {
+          name: "fail",
+          parameters: [prompt],
+          returns: [text],
+          handler: () => {
+            throw new MockGradioError("Prompt is too long");
+          },
+        },
+      ],
+      "fail"
+    );
+
+    await expect(callTool(wrapper, { prompt: "hi" })).rejects.toThrow(
+      "Error calling endpoint: Gradio error: Prompt is too long"
+    );
+  });
+
+  it("streams the values of a generator", async () => {
+    const { wrapper } = await mockTool(
+      [
+        {
+          name: "chat",
+          parameters: [prompt],
+          returns: [text],
+          generator: true,
+          handler: (_data, job) => {
+            job.yield(["Hel"]);
+            job.yield(["Hello"]);
+            job.yield(["Hello there"]);
+            return ["Hello there"];
+          },
+        },
+      ],
+      "chat"
+    );
+
+    expect(wrapper.isGenerator()).toBe(true);
+    const { result, progress } = await callTool(wrapper, { prompt: "hi" });
+
+    expect(result.content).toEqual([{ type: "text", text: "Output: Hello there" }]);
+    // Appended text is reassembled by the client
+    const partial = progress.map((params) => params.message).filter((message) => /Hel/.test(message));
+    expect(partial).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining("Hello"),
+        expect.stringContaining("Hello there"),
+      ])
+    );
+  });
+
+  it("uploads input files and saves output files", async () => {
+    const { wrapper, server, directory } = await mockTool(
+      [
+        {
+          name: "flip",
+          parameters: [
+            { label: "Image", parameter_name: "image", component: "Image", python_type: "filepath" },
+          ],
+          returns: [{ label: "Result", component: "Image", python_type: "filepath" }],
+          handler: ([image], job) => [job.file("flipped.png", job.readFile(image as { path: string }))],
+        },
+      ],
+      "flip"
+    );
+    writeFileSync(path.join(directory, "input.png"), PNG);
+
+    const { result } = await callTool(wrapper, { image: "input.png" });
+
+    expect([...server.uploads.values()]).toEqual([PNG]);
+    expect(server.calls[0].data).toEqual([
+      expect.objectContaining({ path: [...server.uploads.keys()][0] }),
+    ]);
+    expect(result.content).toEqual([
+      { type: "image", data: PNG.toString("base64"), mimeType: "image/png" },
+    ]);
+    expect(readdirSync(directory).filter((name) => name !== "input.png")).toEqual([
+      expect.stringMatching(/\.png$/),
+    ]);
+  });
+
+  it("calls unnamed endpoints by number with positional data", async () => {
+    const { wrapper, server } = await mockTool(
+      [
+        {
+          parameters: [
+            { label: "Text", component: "Textbox", python_type: "str" },
+            { label: "Count", component: "Number", python_type: "float", default: 1 },
+          ],
+          returns: [text],
+          handler: ([value, count]) => [`${value} x${count}`],
+        },
+      ],
+      "1"
+    );
+
+    const { result } = await callTool(wrapper, { Text: "hi", Count: 3 });
+
+    expect(server.calls).toEqual([{ endpoint: 1, data: ["hi", 3] }]);
+    expect(result.content).toEqual([{ type: "text", text: "Output: hi x3" }]);
+  });
+
+  it("cancels the job when the call is aborted", async () => {
+    let markStarted: () => void;
+    const started = new Promise<void>((resolve) => (markStarted = resolve));
+    const { wrapper, server } = await mockTool(
+      [
+        {
+          name: "slow",
+          parameters: [prompt],
+          returns: [text],
+          handler: (_data, job) =>
+            new Promise((resolve) => {
+              job.signal.addEventListener("abort", () => resolve(["too late"]));
+              job.progress(0, 10);
+              markStarted();
+            }),
+        },
+      ],
+      "slow"
+    );
+    const controller = new AbortController();
+
+    const call = callTool(wrapper, { prompt: "hi" }, controller.signal);
+    await started;
+    controller.abort();
+
+    await expect(call).rejects.toThrow("Request cancelled by the client");
+    await vi.waitFor(() => expect(server.cancelled).toHaveLength(1));
+  });
+});
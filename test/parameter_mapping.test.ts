@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import type { ApiEndpoint, ApiStructure } from "../src/gradio_api";
+import { convertApiToSchema } from "../src/gradio_convert";
+import {
+  parameterForProperty,
+  requiresPositionalData,
+  toGradioData,
+  type GradioData,
+} from "../src/parameter_mapping";
+
+// view_api() results recorded from spaces
+const fixtures: Record<string, ApiStructure> = JSON.parse(
+  readFileSync(new URL("./view_api_fixtures.json", import.meta.url), "utf8")
+);
+
+const endpoints = Object.entries(fixtures).flatMap(([space, api]) =>
+  [
+    ...Object.entries(api.named_endpoints),
+    ...Object.entries(api.unnamed_endpoints),
+  ].map(([name, endpoint]) => ({ name: `${space} ${name}`, endpoint }))
+);
+
+// Resolve submitted data to the parameter values, as @gradio/client does
+function resolveLikeGradio(data: GradioData, endpoint: ApiEndpoint): unknown[] {
+  if (Array.isArray(data)) return data;
+  return endpoint.parameters.map((param) => {
+    if (param.parameter_name && param.parameter_name in data) {
+      return data[param.parameter_name];
+    }
+    if (param.parameter_has_default) return param.parameter_default;
+    throw new Error(`No value provided for required parameter: ${param.parameter_name}`);
+  });
+}
+
+describe("parameter mapping", () => {
+  it.each(endpoints)("round-trips the example inputs of $name", ({ endpoint }) => {
+    const propertyNames = Object.keys(convertApiToSchema(endpoint).properties);
+    const args = Object.fromEntries(
+      propertyNames.map((name, index) => [name, endpoint.parameters[index].example_input])
+    );
+
+    const data = toGradioData(endpoint, args);
+
+    expect(resolveLikeGradio(data, endpoint)).toEqual(
+      endpoint.parameters.map((param) => param.example_input)
+    );
+  });
+
+  it("keeps arguments keyed by name when every parameter has a unique name", () => {
+    const endpoint = fixtures["black-forest-labs/FLUX.1-schnell"].named_endpoints["/infer"];
+
+    expect(requiresPositionalData(endpoint)).toBe(false);
+    expect(toGradioData(endpoint, { prompt: "a cat" })).toEqual({ prompt: "a cat" });
+  });
+
+  it("passes unnamed parameters in order, filling in defaults", () => {
+    const endpoint = fixtures["hysts/mixed-names"].named_endpoints["/run"];
+
+    expect(convertApiToSchema(endpoint).required).toEqual(["text"]);
+    expect(toGradioData(endpoint, { text: "Hello" })).toEqual(["Hello", "plain", ""]);
+  });
+
+  it("numbers repeated labels to keep the parameters apart", () => {
+    const endpoint = fixtures["parler-tts/parler_tts_mini"].unnamed_endpoints["0"];
+
+    expect(Object.keys(convertApiToSchema(endpoint).properties)).toEqual([
+      "Image",
+      "Image_2",
+      "Unnamed Parameter 1",
+    ]);
+    expect(parameterForProperty(endpoint, "Image_2")).toBe(endpoint.parameters[1]);
+  });
+
+  it("rejects arguments that match no parameter", () => {
+    const endpoint = fixtures["parler-tts/parler_tts_mini"].named_endpoints["/predict"];
+
+    expect(() => toGradioData(endpoint, { "Input Text": "Hi", text: "Hi" })).toThrow(
+      "Unknown parameter text. Expected one of Input Text, Description"
+    );
+  });
+});
@@ -0,0 +1,13 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { parsePythonType } from "../src/python_type";
+
+const fixtures: { python_type: string; schema: object | null }[] = JSON.parse(
+  readFileSync(new URL("./python_type_fixtures.json", import.meta.url), "utf8")
+);
+
+describe("parsePythonType", () => {
+  it.each(fixtures)("parses $python_type", ({ python_type, schema }) => {
+    expect(parsePythonType(python_type)).toEqual(schema ?? undefined);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { EndpointWrapper, parsePath } from "../src/endpoint_wrapper";
+import type { ApiEndpoint } from "../src/gradio_api";
+import { ResultCache, resultCacheKey } from "../src/result_cache";
+import { WorkingDirectory } from "../src/working_directory";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+
+const result = { content: [{ type: "text" as const, text: "Output: done" }] };
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function createCache(options = {}) {
+  return new ResultCache(path.join(directory, "results"), {
+    ttlSeconds: 60,
+    maxSizeBytes: 1024 * 1024,
+    ...options,
+  });
+}
+
+describe("result cache", () => {
+  it("ignores the order of arguments in the key", () => {
+    expect(
+      resultCacheKey({ space: "test/space", endpoint: "/a", parameters: { prompt: "x", seed: 1 } })
+    ).toBe(
+      resultCacheKey({ space: "test/space", endpoint: "/a", parameters: { seed: 1, prompt: "x" } })
+    );
+  });
+
+  it("marks cached results", async () => {
+    const cache = createCache();
+    await cache.set("key", "test", result, []);
+
+    const cached = await cache.get("key");
+    expect(cached?.content[1]).toEqual(result.content[0]);
+    expect((cached?.content[0] as any).text).toMatch(/^\(Cached result from /);
+    expect(cached?._meta).toMatchObject({ cached: true });
+  });
+
+  it("expires entries after the TTL", async () => {
+    const cache = createCache({ ttlSeconds: 1 });
+    await cache.set("key", "test", result, []);
+
+    vi.useFakeTimers({ now: Date.now() + 2000 });
+    expect(await cache.get("key")).toBeUndefined();
+  });
+
+  it("misses when an output file was deleted", async () => {
+    const file = path.join(directory, "output.png");
+    writeFileSync(file, "image");
+    const cache = createCache();
+    await cache.set("key", "test", result, [file]);
+
+    rmSync(file);
+    expect(await cache.get("key")).toBeUndefined();
+  });
+
+  it("removes the oldest entries over the size cap", async () => {
+    const cache = createCache({ maxSizeBytes: 200 });
+    await cache.set("first", "test", result, []);
+    const earlier = new Date(Date.now() - 10000);
+    utimesSync(path.join(directory, "results", "first.json"), earlier, earlier);
+    await cache.set("second", "test", result, []);
+
+    expect(readdirSync(path.join(directory, "results"))).toEqual(["second.json"]);
+  });
+});
+
+describe("cached endpoint calls", () => {
+  const endpoint: ApiEndpoint = {
+    parameters: [
+      {
+        label: "Prompt",
+        parameter_name: "prompt",
+        type: "string",
+        python_type: { type: "str", description: "" },
+        component: "Textbox",
+      },
+    ],
+    returns: [
+      {
+        label: "Output",
+        type: "string",
+        python_type: { type: "str", description: "" },
+        component: "Textbox",
+      },
+    ],
+    type: { generator: false, cancel: false },
+  };
+
+  it("reuses the result of an identical call", async () => {
+    const submit = vi.fn().mockImplementation(() => ({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "data", data: ["done"] };
+      },
+      cancel: vi.fn(),
+    }));
+    const workingDir = new WorkingDirectory(directory);
+    const wrapper = new EndpointWrapper(
+      parsePath("test/space/predict"),
+      endpoint,
+      { submit } as any,
+      workingDir,
+      { cache: true }
+    );
+    const request = (prompt: string) => ({
+      method: "tools/call" as const,
+      params: { name: "predict", arguments: { prompt } },
+    });
+
+    await wrapper.call(request("hello"), {} as Server);
+    const cached = await wrapper.call(request("hello"), {} as Server);
+    await wrapper.call(request("goodbye"), {} as Server);
+
+    expect(submit).toHaveBeenCalledTimes(2);
+    expect(cached._meta).toMatchObject({ cached: true });
+    expect(await workingDir.listFiles()).toEqual([]);
+  });
+
+  it("keeps the results of spaces of the same name apart", async () => {
+    const workingDir = new WorkingDirectory(directory);
+    const wrapperFor = (owner: string, reply: string) => {
+      const submit = vi.fn().mockImplementation(() => ({
+        async *[Symbol.asyncIterator]() {
+          yield { type: "data", data: [reply] };
+        },
+        cancel: vi.fn(),
+      }));
+      const wrapper = new EndpointWrapper(
+        parsePath(`${owner}/flux/infer`),
+        endpoint,
+        { submit } as any,
+        workingDir,
+        { cache: true }
+      );
+      return { wrapper, submit };
+    };
+    const alice = wrapperFor("alice", "from alice");
+    const bob = wrapperFor("bob", "from bob");
+    const request = {
+      method: "tools/call" as const,
+      params: { name: "flux-infer", arguments: { prompt: "hello" } },
+    };
+
+    await alice.wrapper.call(request, {} as Server);
+    const result = await bob.wrapper.call(request, {} as Server);
+
+    expect(bob.submit).toHaveBeenCalledTimes(1);
+    expect(result._meta).toBeUndefined();
+    expect(result.content).toEqual([{ type: "text", text: "Output: from bob" }]);
+  });
+});
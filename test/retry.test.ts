@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from "vitest";
+import { backoffDelay, retrySubmission, withRetry } from "../src/retry";
+import { GradioCallError, toolErrorResult } from "../src/gradio_errors";
+import { collect, submission } from "./support/submissions";
+
+const policy = { retries: 2, initialDelay: 0, maxDelay: 0 };
+
+describe("retry policy", () => {
+  it("doubles the delay up to the maximum", () => {
+    const delays = [1, 2, 3, 4].map((retry) =>
+      backoffDelay(retry, { retries: 4, initialDelay: 2, maxDelay: 10 })
+    );
+    expect(delays).toEqual([2000, 4000, 8000, 10000]);
+  });
+
+  it("retries transient errors until the retries are used up", async () => {
+    const operation = vi.fn().mockRejectedValue(new Error("fetch failed"));
+
+    await expect(
+      withRetry(operation, { shouldRetry: () => true, policy })
+    ).rejects.toThrow("fetch failed");
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("retried submissions", () => {
+  it("submits again when the queue is full", async () => {
+    const submit = vi
+      .fn()
+      .mockReturnValueOnce(
+        submission([{ type: "status", stage: "error", message: "Queue is full" }])
+      )
+      .mockReturnValueOnce(submission([{ type: "data", data: ["ok"] }]));
+    const onRetry = vi.fn();
+
+    const retried = retrySubmission(submit, { policy, onRetry });
+    const events = await collect(retried);
+
+    expect(events).toEqual([{ type: "data", data: ["ok"] }]);
+    expect(retried.attempts).toBe(2);
+    expect(onRetry).toHaveBeenCalledWith("Queue is full", 1, 0);
+  });
+
+  it("passes on errors raised by the app", async () => {
+    const submit = vi
+      .fn()
+      .mockReturnValue(
+        submission([{ type: "status", stage: "error", message: "Invalid image size" }])
+      );
+
+    const events = await collect(retrySubmission(submit, { policy }));
+
+    expect(events).toEqual([
+      { type: "status", stage: "error", message: "Invalid image size" },
+    ]);
+    expect(submit).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the last error once the retries are used up", async () => {
+    const submit = vi
+      .fn()
+      .mockImplementation(() =>
+        submission([{ type: "status", stage: "error", message: "Queue is full" }])
+      );
+
+    const retried = retrySubmission(submit, { policy });
+    const events = await collect(retried);
+
+    expect(events).toEqual([{ type: "status", stage: "error", message: "Queue is full" }]);
+    expect(retried.attempts).toBe(3);
+  });
+});
+
+describe("error results", () => {
+  it("carry the error code and whether it is retryable", () => {
+    expect(
+      toolErrorResult(new GradioCallError("Gradio error: Queue is full", 3))._meta
+    ).toEqual({ error: { code: "QUEUE_FULL", retryable: true, attempts: 3 } });
+    expect(toolErrorResult(new Error("Invalid file path"))._meta).toEqual({
+      error: { code: "APP_ERROR", retryable: false, attempts: 1 },
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { ApiEndpoint } from "../src/gradio_api";
+import { convertApiToSchema } from "../src/gradio_convert";
+import {
+  applyArgumentOverrides,
+  loadConfigFile,
+  spaceConfigPath,
+} from "../src/space_config";
+
+const endpoint: ApiEndpoint = {
+  parameters: [
+    {
+      label: "Prompt",
+      parameter_name: "prompt",
+      type: "string",
+      python_type: { type: "str", description: "" },
+      component: "Textbox",
+    },
+    {
+      label: "Seed",
+      parameter_name: "seed",
+      parameter_has_default: true,
+      parameter_default: 0,
+      type: "number",
+      python_type: { type: "float", description: "" },
+      component: "Slider",
+    },
+    {
+      label: "Steps",
+      parameter_name: "steps",
+      type: "number",
+      python_type: { type: "float", description: "" },
+      component: "Slider",
+    },
+    {
+      label: "Randomize",
+      parameter_name: "randomize_seed",
+      parameter_has_default: true,
+      parameter_default: true,
+      type: "boolean",
+      python_type: { type: "bool", description: "" },
+      component: "Checkbox",
+    },
+  ],
+  returns: [],
+  type: { generator: false, cancel: false },
+};
+
+function writeConfig(name: string, content: string): string {
+  const dir = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+  const file = path.join(dir, name);
+  writeFileSync(file, content);
+  return file;
+}
+
+describe("configuration file loading", () => {
+  it("loads JSON configuration", () => {
+    const file = writeConfig(
+      "mcp-hfspace.json",
+      JSON.stringify({
+        spaces: [
+          "evalstate/FLUX.1-schnell",
+          {
+            space: "parler-tts/parler_tts",
+            endpoint: "/gen_tts",
+            toolName: "speak",
+            hidden: ["seed"],
+          },
+        ],
+      })
+    );
+
+    const spaces = loadConfigFile(file);
+    expect(spaces).toHaveLength(2);
+    expect(spaceConfigPath(spaces[0])).toBe("evalstate/FLUX.1-schnell");
+    expect(spaceConfigPath(spaces[1])).toBe("parler-tts/parler_tts/gen_tts");
+    expect(spaces[1].toolName).toBe("speak");
+  });
+
+  it("loads YAML configuration", () => {
+    const file = writeConfig(
+      "mcp-hfspace.yaml",
+      [
+        "spaces:",
+        "  - space: evalstate/FLUX.1-schnell",
+        "    endpoint: infer",
+        "    description: Generate an image",
+        "    fixed:",
+        "      randomize_seed: false",
+      ].join("\n")
+    );
+
+    const [flux] = loadConfigFile(file);
+    expect(flux.description).toBe("Generate an image");
+    expect(flux.fixed).toEqual({ randomize_seed: false });
+  });
+
+  it("rejects invalid tool names", () => {
+    const file = writeConfig(
+      "bad.json",
+      JSON.stringify({ spaces: [{ space: "a/b", toolName: "not valid!" }] })
+    );
+    expect(() => loadConfigFile(file)).toThrow(/toolName/);
+  });
+
+  it("rejects invalid daily caps", () => {
+    const file = writeConfig(
+      "cap.json",
+      JSON.stringify({ spaces: [{ space: "a/b", dailyCap: { calls: "ten" } }] })
+    );
+    expect(() => loadConfigFile(file)).toThrow(/dailyCap/);
+  });
+
+  it("requires a spaces list", () => {
+    const file = writeConfig("empty.json", "{}");
+    expect(() => loadConfigFile(file)).toThrow(/"spaces" list/);
+  });
+});
+
+describe("tool overrides", () => {
+  const overrides = {
+    fixed: { randomize_seed: false },
+    defaults: { steps: 4 },
+    hidden: ["seed"],
+  };
+
+  it("applies overrides to the input schema", () => {
+    const schema = convertApiToSchema(endpoint, overrides);
+
+    expect(Object.keys(schema.properties)).toEqual(["prompt", "steps"]);
+    expect(schema.properties.steps.default).toBe(4);
+    expect(schema.required).toEqual(["prompt"]);
+  });
+
+  it("applies overrides to call arguments", () => {
+    expect(
+      applyArgumentOverrides({ prompt: "a cat", seed: 42 }, overrides)
+    ).toEqual({ prompt: "a cat", steps: 4, randomize_seed: false });
+
+    expect(
+      applyArgumentOverrides(
+        { prompt: "a cat", steps: 8, randomize_seed: true },
+        overrides
+      )
+    ).toEqual({ prompt: "a cat", steps: 8, randomize_seed: false });
+  });
+});
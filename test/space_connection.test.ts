@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { Client } from "@gradio/client";
+import { ApiSchemaCache } from "../src/api_cache";
+import { SpaceConnection } from "../src/space_connection";
+import { collect, submission } from "./support/submissions";
+
+const api = { named_endpoints: { "/predict": {} }, unnamed_endpoints: {} };
+
+let directory: string;
+let cache: ApiSchemaCache;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+  cache = new ApiSchemaCache(directory);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("space connection", () => {
+  it("uses the cached API and connects on the first call", async () => {
+    await cache.set("http://localhost:7860/", api as any);
+    const submit = vi.fn().mockReturnValue(submission([{ type: "data", data: ["ok"] }]));
+    const connect = vi
+      .spyOn(Client, "connect")
+      .mockResolvedValue({ submit, view_api: vi.fn().mockResolvedValue(api) } as any);
+    const connection = new SpaceConnection("http://localhost:7860/", true, cache);
+
+    expect(await connection.api()).toEqual(api);
+    expect(connect).not.toHaveBeenCalled();
+
+    const events = await collect(connection.submit("/predict", { prompt: "hi" }));
+    expect(events).toEqual([{ type: "data", data: ["ok"] }]);
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+
+  it("saves the API when connecting without a cached copy", async () => {
+    vi.spyOn(Client, "connect").mockResolvedValue({
+      view_api: vi.fn().mockResolvedValue(api),
+    } as any);
+    const connection = new SpaceConnection("http://localhost:7860/", true, cache);
+
+    await connection.api();
+
+    expect(await cache.get("http://localhost:7860/")).toEqual(api);
+  });
+
+  it("reconnects when the connection went stale", async () => {
+    const stale = {
+      submit: vi.fn().mockReturnValue(
+        submission([{ type: "status", stage: "error", message: "Connection errored out." }])
+      ),
+    };
+    const fresh = {
+      submit: vi.fn().mockReturnValue(submission([{ type: "data", data: ["ok"] }])),
+    };
+    const connect = vi
+      .spyOn(Client, "connect")
+      .mockResolvedValueOnce(stale as any)
+      .mockResolvedValueOnce(fresh as any);
+    const connection = new SpaceConnection("http://localhost:7860/", true);
+
+    const events = await collect(connection.submit("/predict", {}));
+
+    expect(events).toEqual([{ type: "data", data: ["ok"] }]);
+    expect(connect).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not resubmit jobs that failed in the space", async () => {
+    const client = {
+      submit: vi.fn().mockReturnValue(
+        submission([{ type: "status", stage: "error", message: "CUDA out of memory" }])
+      ),
+    };
+    vi.spyOn(Client, "connect").mockResolvedValue(client as any);
+    const connection = new SpaceConnection("http://localhost:7860/", true);
+
+    const events = await collect(connection.submit("/predict", {}));
+
+    expect(events).toEqual([{ type: "status", stage: "error", message: "CUDA out of memory" }]);
+    expect(client.submit).toHaveBeenCalledTimes(1);
+  });
+});
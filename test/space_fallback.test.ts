@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from "vitest";
+import type { ApiEndpoint } from "../src/gradio_api";
+import { classifyGradioError } from "../src/gradio_errors";
+import {
+  mapParametersByName,
+  submitWithFallback,
+  type SpaceBackend,
+} from "../src/space_fallback";
+import { collect, submission } from "./support/submissions";
+
+function endpoint(
+  parameters: { name: string; label: string; optional?: boolean }[]
+): ApiEndpoint {
+  return {
+    parameters: parameters.map(({ name, label, optional }) => ({
+      label,
+      parameter_name: name,
+      parameter_has_default: optional ?? false,
+      type: "string",
+      python_type: { type: "str" },
+      component: "Textbox",
+    })),
+    returns: [],
+    type: { generator: false, cancel: false },
+  };
+}
+
+function backend(name: string, events: unknown[], schema = primarySchema): SpaceBackend {
+  return {
+    name,
+    endpoint: "/infer",
+    schema,
+    connection: {
+      submit: vi.fn().mockReturnValue(submission(events)),
+    },
+  };
+}
+
+const primarySchema = endpoint([
+  { name: "prompt", label: "Prompt" },
+  { name: "seed", label: "Seed", optional: true },
+]);
+
+describe("error classification", () => {
+  it("classifies space errors", () => {
+    expect(classifyGradioError("The queue is full, try again later")).toBe("queue_full");
+    expect(classifyGradioError("You have exceeded your GPU quota")).toBe("quota");
+    expect(classifyGradioError("Space a/b is not running (RUNTIME_ERROR)")).toBe("unavailable");
+    expect(classifyGradioError("Connection errored out.")).toBe("connection");
+    expect(classifyGradioError("Invalid prompt")).toBe("app");
+  });
+
+  it("classifies lost connections by the messages of the client", () => {
+    expect(classifyGradioError("fetch failed")).toBe("connection");
+    expect(classifyGradioError("connect ECONNREFUSED 127.0.0.1:7860")).toBe("connection");
+    expect(classifyGradioError("Could not resolve app config.")).toBe("connection");
+    expect(classifyGradioError("Space a/b is still BUILDING after 300s")).toBe("unavailable");
+  });
+
+  it("does not mistake app errors for space errors", () => {
+    expect(classifyGradioError("Invalid session id")).toBe("app");
+    expect(classifyGradioError("network weights not loaded")).toBe("app");
+    expect(classifyGradioError("Socket option not supported")).toBe("app");
+    expect(classifyGradioError("Lost connection to the database")).toBe("app");
+    expect(classifyGradioError("The model is sleeping, use another one")).toBe("app");
+    expect(classifyGradioError("Video paused at frame 3")).toBe("app");
+  });
+});
+
+describe("parameter mapping", () => {
+  it("maps parameters by name or label", () => {
+    const other = endpoint([
+      { name: "text", label: "Prompt" },
+      { name: "seed", label: "Random seed", optional: true },
+    ]);
+
+    expect(mapParametersByName({ prompt: "cat", seed: 1 }, primarySchema, other)).toEqual({
+      text: "cat",
+      seed: 1,
+    });
+  });
+
+  it("reports a required parameter that cannot be filled", () => {
+    const other = endpoint([
+      { name: "prompt", label: "Prompt" },
+      { name: "steps", label: "Steps" },
+    ]);
+
+    expect(mapParametersByName({ prompt: "cat" }, primarySchema, other)).toMatch(/"steps"/);
+  });
+});
+
+describe("fallback submission", () => {
+  it("moves to the next space when the queue is full", async () => {
+    const primary = backend("a/flux", [
+      { type: "status", stage: "error", message: "Queue is full" },
+    ]);
+    const fallback = backend("b/flux", [{ type: "data", data: ["image"] }]);
+    const onProgress = vi.fn();
+
+    const submission = submitWithFallback(
+      [async () => primary, async () => fallback],
+      { prompt: "cat" },
+      onProgress
+    );
+    const events = await collect(submission);
+
+    expect(events).toEqual([{ type: "data", data: ["image"] }]);
+    expect(submission.servedBy).toBe("b/flux");
+    expect(fallback.connection.submit).toHaveBeenCalledWith(
+      "/infer",
+      { prompt: "cat" },
+      onProgress
+    );
+    expect(onProgress).toHaveBeenCalledWith(expect.stringMatching(/a\/flux failed: Queue is full/));
+  });
+
+  it("does not retry errors raised by the app", async () => {
+    const primary = backend("a/flux", [
+      { type: "status", stage: "error", message: "Invalid prompt" },
+    ]);
+    const fallback = backend("b/flux", [{ type: "data", data: ["image"] }]);
+
+    const events = await collect(
+      submitWithFallback([async () => primary, async () => fallback], { prompt: "cat" })
+    );
+
+    expect(events).toEqual([{ type: "status", stage: "error", message: "Invalid prompt" }]);
+    expect(fallback.connection.submit).not.toHaveBeenCalled();
+  });
+
+  it("skips spaces that cannot be loaded and reports every failure", async () => {
+    const primary = backend("a/flux", [
+      { type: "status", stage: "error", message: "ZeroGPU quota exceeded" },
+    ]);
+    const last = backend("c/flux", [
+      { type: "status", stage: "error", message: "Queue is full" },
+    ]);
+
+    const events = await collect(
+      submitWithFallback(
+        [
+          async () => primary,
+          async () => {
+            throw new Error("Space b/flux was not found on the Hub");
+          },
+          async () => last,
+        ],
+        { prompt: "cat" }
+      )
+    );
+
+    expect(events).toEqual([
+      {
+        type: "status",
+        stage: "error",
+        message: expect.stringMatching(
+          /Queue is full \(after a\/flux failed: ZeroGPU .*; fallback space 1 failed: Space b\/flux was not found/
+        ),
+      },
+    ]);
+  });
+});
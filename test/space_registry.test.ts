@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@gradio/client";
+import { SpaceRegistry, ADD_SPACE, REMOVE_SPACE } from "../src/space_registry";
+import { WorkingDirectory } from "../src/working_directory";
+import { config } from "../src/config";
+
+const api = {
+  named_endpoints: {
+    "/predict": {
+      parameters: [
+        {
+          label: "Prompt",
+          parameter_name: "prompt",
+          type: "string",
+          python_type: { type: "str", description: "" },
+          component: "Textbox",
+        },
+      ],
+      returns: [],
+      type: { generator: false, cancel: false },
+    },
+  },
+  unnamed_endpoints: {},
+};
+
+let registry: SpaceRegistry;
+let changes: number;
+
+beforeEach(() => {
+  vi.spyOn(Client, "connect").mockResolvedValue({
+    view_api: vi.fn().mockResolvedValue(api),
+  } as any);
+  vi.stubGlobal(
+    "fetch",
+    vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ sdk: "gradio", runtime: { stage: "RUNNING" } }),
+    })
+  );
+  registry = new SpaceRegistry(new WorkingDirectory(process.cwd()));
+  changes = 0;
+  registry.onChange(() => changes++);
+});
+
+afterEach(() => {
+  config.allEndpoints = false;
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("space registry", () => {
+  it("adds and removes spaces, reporting each change", async () => {
+    const added = await registry.callManagementTool(ADD_SPACE, {
+      space: "owner/flux",
+      tool_name: "draw",
+    });
+    expect(added).toEqual({
+      content: [{ type: "text", text: "Added tool draw" }],
+      isError: false,
+    });
+    expect(registry.get("draw")).toBeDefined();
+
+    const removed = await registry.callManagementTool(REMOVE_SPACE, {
+      space: "draw",
+    });
+    expect((removed.content[0] as any).text).toBe("Removed tool draw");
+    expect(registry.size).toBe(0);
+    expect(changes).toBe(2);
+  });
+
+  it("reports the status of spaces configured with an endpoint", async () => {
+    await registry.add({ space: "owner/status/predict" });
+    await registry.add({ space: "http://127.0.0.1:7860/predict" });
+
+    const result = await registry.spaceStatus();
+
+    const urls = vi.mocked(fetch).mock.calls.map(([url]) => String(url));
+    expect(urls).toContain(`${config.hubUrl}/api/spaces/owner/status`);
+    expect(urls).toContain("http://127.0.0.1:7860/");
+    expect((result.content[0] as any).text).toContain(
+      "| owner/status/predict | status-predict | RUNNING | unknown | gradio |"
+    );
+  });
+
+  it("loads a space added twice at the same time once", async () => {
+    const results = await Promise.allSettled([
+      registry.add({ space: "owner/twice" }),
+      registry.add({ space: "owner/twice" }),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason.message).toMatch(
+      /already being loaded/
+    );
+    expect(registry.size).toBe(1);
+    await registry.add({ space: "owner/other" });
+    expect(registry.size).toBe(2);
+  });
+
+  it("rejects a tool name that is already in use", async () => {
+    await registry.add({ space: "owner/flux", toolName: "draw" });
+
+    const result = await registry.callManagementTool(ADD_SPACE, {
+      space: "other/sdxl",
+      tool_name: "draw",
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as any).text).toMatch(/already exists/);
+    expect(changes).toBe(1);
+  });
+
+  it("rejects invalid space paths", async () => {
+    const result = await registry.callManagementTool(ADD_SPACE, { space: "flux" });
+
+    expect(result.isError).toBe(true);
+  });
+
+  it("applies changes to the configuration file", async () => {
+    const previous = [
+      { space: "owner/flux", toolName: "draw" },
+      { space: "owner/whisper" },
+    ];
+    await registry.reload([], previous);
+
+    const errors = await registry.reload(previous, [
+      { space: "owner/flux", toolName: "paint" },
+      { space: "owner/whisper" },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(registry.get("draw")).toBeUndefined();
+    expect(registry.get("paint")).toBeDefined();
+    expect(registry.get("whisper-predict")).toBeDefined();
+  });
+
+  it("keeps the overrides of an entry without an endpoint with --all-endpoints", async () => {
+    config.allEndpoints = true;
+
+    await registry.add({ space: "owner/flux", toolName: "draw", description: "Draw" });
+    await registry.add({ space: "owner/whisper" });
+
+    expect(registry.get("draw")?.toolDefinition().description).toBe("Draw");
+    expect(registry.get("whisper-predict")).toBeDefined();
+  });
+});
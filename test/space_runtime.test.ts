@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  fetchSpaceRuntime,
+  runtimeError,
+  waitForSpace,
+} from "../src/space_runtime";
+
+function metadata(stage: string, extra: Record<string, unknown> = {}) {
+  return new Response(
+    JSON.stringify({
+      sdk: "gradio",
+      host: "https://owner-space.hf.space",
+      runtime: { stage, hardware: { current: "cpu-basic", requested: "cpu-basic" } },
+      ...extra,
+    })
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("space runtime", () => {
+  it("parses the stage, hardware and SDK", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(metadata("RUNNING")));
+
+    expect(await fetchSpaceRuntime("owner/space")).toEqual({
+      stage: "RUNNING",
+      sdk: "gradio",
+      hardware: "cpu-basic",
+      requestedHardware: "cpu-basic",
+      host: "https://owner-space.hf.space",
+      errorMessage: undefined,
+    });
+  });
+
+  it("explains why a space is not available", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("", { status: 404 })));
+    await expect(fetchSpaceRuntime("owner/missing")).rejects.toThrow(/was not found on the Hub/);
+
+    expect(
+      runtimeError("owner/space", { stage: "RUNTIME_ERROR", errorMessage: "CUDA error" })?.message
+    ).toBe("Space owner/space is not running (RUNTIME_ERROR): CUDA error");
+    expect(runtimeError("owner/space", { stage: "PAUSED" })?.message).toMatch(/paused/);
+    expect(runtimeError("owner/space", { stage: "RUNNING", sdk: "docker" })?.message).toMatch(
+      /uses the docker SDK/
+    );
+    expect(runtimeError("owner/space", { stage: "SLEEPING" })).toBeUndefined();
+  });
+
+  it("wakes a sleeping space and reports progress until it runs", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(metadata("SLEEPING"))
+      .mockResolvedValueOnce(new Response("waking"))
+      .mockResolvedValueOnce(metadata("APP_STARTING"))
+      .mockResolvedValueOnce(metadata("RUNNING"));
+    vi.stubGlobal("fetch", fetch);
+    const onProgress = vi.fn();
+
+    const runtime = await waitForSpace("owner/space", { onProgress, pollInterval: 0 });
+
+    expect(runtime.stage).toBe("RUNNING");
+    expect(fetch).toHaveBeenCalledWith("https://owner-space.hf.space", expect.anything());
+    expect(onProgress.mock.calls.map(([message]) => message)).toEqual([
+      expect.stringMatching(/is SLEEPING, waiting for it to wake up/),
+      expect.stringMatching(/is APP_STARTING/),
+    ]);
+  });
+
+  it("gives up after the timeout", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockImplementation(async () => metadata("BUILDING")));
+
+    await expect(
+      waitForSpace("owner/space", { timeoutSeconds: 0, pollInterval: 0 })
+    ).rejects.toThrow(/still BUILDING/);
+  });
+});
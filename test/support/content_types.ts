@@ -0,0 +1,10 @@
+/** Content types of the files served by the test Gradio apps, by extension */
+export const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".jpg": "image/jpeg",
+  ".wav": "audio/wav",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".txt": "text/plain",
+};
@@ -0,0 +1,195 @@
+import { Client } from "@gradio/client";
+import { createServer, type Server } from "http";
+import { promises as fs } from "fs";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { ApiStructure } from "../../src/gradio_api";
+import { CONTENT_TYPES } from "./content_types";
+
+/**
+ * Record and replay of Gradio spaces, so that tool calls can be tested end to
+ * end without a network connection.
+ *
+ * A fixture is a directory holding fixture.json (the space's view_api() and
+ * the events of each recorded call) and files/, with the files the calls
+ * returned. URLs of returned files are stored as {{files}}/name, and served
+ * from a local file server on replay.
+ *
+ * To record, list the calls in a fixture.json and run the tests with
+ * GRADIO_RECORD=1 (and HF_TOKEN for private spaces):
+ *
+ *   { "space": "vendor/space", "calls": [{ "endpoint": "/predict", "data": {...} }] }
+ */
+
+export const FILES_PLACEHOLDER = "{{files}}";
+
+export interface RecordedCall {
+  endpoint: string | number;
+  // The data given to submit, keyed by parameter name or in order
+  data: Record<string, unknown> | unknown[];
+  events: Record<string, unknown>[];
+}
+
+export interface GradioFixture {
+  space: string;
+  api: ApiStructure;
+  calls: RecordedCall[];
+}
+
+export function isRecording(): boolean {
+  return process.env.GRADIO_RECORD === "1";
+}
+
+export async function readFixture(directory: string): Promise<GradioFixture> {
+  return JSON.parse(await fs.readFile(path.join(directory, "fixture.json"), "utf8"));
+}
+
+/**
+ * Record the fixture's calls from the live space: its view_api(), the events
+ * of each call and the files they return. Replaces the recorded results.
+ */
+export async function recordFixture(directory: string, hfToken = process.env.HF_TOKEN) {
+  const fixture = await readFixture(directory);
+  const client = await Client.connect(fixture.space, {
+    hf_token: hfToken as `hf_${string}` | undefined,
+    events: ["data", "status"],
+  });
+  const filesDirectory = path.join(directory, "files");
+  await fs.rm(filesDirectory, { recursive: true, force: true });
+  await fs.mkdir(filesDirectory, { recursive: true });
+
+  const api = (await client.view_api()) as unknown as ApiStructure;
+  const calls: RecordedCall[] = [];
+  for (const call of fixture.calls) {
+    const events: Record<string, unknown>[] = [];
+    for await (const event of client.submit(call.endpoint, call.data)) {
+      // Times differ on every run and are not used
+      const { time: _time, ...recorded } = JSON.parse(JSON.stringify(event));
+      if (recorded.type === "data") {
+        recorded.data = await saveFiles(recorded.data, filesDirectory, hfToken);
+      }
+      events.push(recorded);
+    }
+    calls.push({ endpoint: call.endpoint, data: call.data, events });
+  }
+
+  await fs.writeFile(
+    path.join(directory, "fixture.json"),
+    `${JSON.stringify({ space: fixture.space, api, calls }, null, 2)}\n`
+  );
+}
+
+// Download the files in a data event, replacing their URLs with the placeholder
+async function saveFiles(
+  value: unknown,
+  directory: string,
+  hfToken?: string
+): Promise<unknown> {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => saveFiles(item, directory, hfToken)));
+  }
+  if (!value || typeof value !== "object") return value;
+
+  const entries = await Promise.all(
+    Object.entries(value).map(async ([key, item]) => [
+      key,
+      await saveFiles(item, directory, hfToken),
+    ])
+  );
+  const saved = Object.fromEntries(entries);
+  if (typeof saved.url !== "string" || !/^https?:/.test(saved.url)) return saved;
+
+  const response = await fetch(saved.url, {
+    headers: hfToken ? { Authorization: `Bearer ${hfToken}` } : {},
+  });
+  if (!response.ok) {
+    throw new Error(`Could not download ${saved.url}: HTTP ${response.status}`);
+  }
+  const existing = await fs.readdir(directory);
+  const name = `${existing.length}_${path.basename(new URL(saved.url).pathname)}`;
+  await fs.writeFile(path.join(directory, name), Buffer.from(await response.arrayBuffer()));
+  return { ...saved, path: name, url: `${FILES_PLACEHOLDER}/${name}` };
+}
+
+/** A stand-in for the Gradio Client that replays recorded calls */
+export class ReplayClient {
+  // The data of every call submitted
+  readonly submitted: { endpoint: string | number; data: unknown }[] = [];
+
+  constructor(
+    private readonly fixture: GradioFixture,
+    private readonly filesUrl: string
+  ) {}
+
+  async view_api(): Promise<ApiStructure> {
+    return structuredClone(this.fixture.api);
+  }
+
+  submit(endpoint: string | number, data: Record<string, unknown> | unknown[]) {
+    this.submitted.push({ endpoint, data });
+    const call = this.fixture.calls.find(
+      (recorded) =>
+        recorded.endpoint === endpoint && JSON.stringify(recorded.data) === JSON.stringify(data)
+    );
+    if (!call) {
+      throw new Error(
+        `No recorded call to ${endpoint} with ${JSON.stringify(data)}. Recorded: ${this.fixture.calls
+          .map((recorded) => `${recorded.endpoint} ${JSON.stringify(recorded.data)}`)
+          .join("; ")}`
+      );
+    }
+
+    const events = JSON.parse(
+      JSON.stringify(call.events).replaceAll(FILES_PLACEHOLDER, this.filesUrl)
+    );
+    let cancelled = false;
+    return {
+      async *[Symbol.asyncIterator]() {
+        for (const event of events) {
+          if (cancelled) return;
+          yield event;
+        }
+      },
+      cancel: async () => {
+        cancelled = true;
+      },
+    };
+  }
+}
+
+export interface Replay {
+  client: ReplayClient;
+  // Base URL of the local server, which can be used as the app URL
+  url: string;
+  close(): Promise<void>;
+}
+
+/** Serve a fixture's files locally, and replay its calls through a ReplayClient */
+export async function replayFixture(directory: string): Promise<Replay> {
+  const fixture = await readFixture(directory);
+  const server = await serveFiles(path.join(directory, "files"));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    client: new ReplayClient(fixture, `${url}/files`),
+    url,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+function serveFiles(directory: string): Promise<Server> {
+  const server = createServer(async (request, response) => {
+    const name = decodeURIComponent(new URL(request.url!, "http://localhost").pathname)
+      .replace(/^\/files\//, "");
+    try {
+      const contents = await fs.readFile(path.join(directory, path.basename(name)));
+      response.writeHead(200, {
+        "Content-Type":
+          CONTENT_TYPES[path.extname(name).toLowerCase()] ?? "application/octet-stream",
+      });
+      response.end(contents);
+    } catch {
+      response.writeHead(404).end();
+    }
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
@@ -0,0 +1,441 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { randomBytes } from "crypto";
+import path from "path";
+import type { AddressInfo } from "net";
+import { CONTENT_TYPES } from "./content_types";
+
+/**
+ * A local fake Gradio app, for integration tests that run the real
+ * @gradio/client against scripted endpoints. It serves /config, the API info,
+ * the queue (queue/join and the queue/data event stream, sse_v3), uploads,
+ * files and cancellation, as a Gradio 5 app does under /gradio_api.
+ *
+ * Each endpoint has a handler, which is given the submitted data in parameter
+ * order and a MockJob to report progress, yield generator values and return
+ * files. Throwing a MockGradioError fails the job with its message, as
+ * gr.Error does; any other error fails it without a message.
+ *
+ * Endpoints are numbered from 1 in the order given (the client ignores the
+ * generator flag of endpoint 0), so unnamed endpoints are called as
+ * `${url}/1`, `${url}/2`, ...
+ */
+
+export const API_PREFIX = "/gradio_api";
+
+export interface MockParameter {
+  label: string;
+  // Omit for the unnamed parameters of older apps
+  parameter_name?: string;
+  component: string;
+  // e.g. "str", "float" or "filepath"
+  python_type: string;
+  description?: string;
+  // The JSON Schema type the API info reports, by default from python_type
+  type?: Record<string, unknown>;
+  // The parameter is optional when it has a default
+  default?: unknown;
+}
+
+export interface MockReturn {
+  label: string;
+  component: string;
+  python_type: string;
+  description?: string;
+}
+
+export interface MockEndpoint {
+  // The API name without the slash, or omitted for an unnamed endpoint
+  name?: string;
+  parameters: MockParameter[];
+  returns: MockReturn[];
+  generator?: boolean;
+  handler: MockHandler;
+}
+
+export type MockHandler = (data: unknown[], job: MockJob) => unknown[] | Promise<unknown[]>;
+
+/** Fails a job with a message for the client, as gr.Error does */
+export class MockGradioError extends Error {
+  constructor(
+    message: string,
+    readonly title = "Error"
+  ) {
+    super(message);
+    this.name = "MockGradioError";
+  }
+}
+
+export interface MockFileData {
+  path: string;
+  url: string;
+  orig_name: string;
+  size: number;
+  mime_type?: string;
+  meta: { _type: "gradio.FileData" };
+}
+
+/** A running job, as seen by an endpoint handler */
+export interface MockJob {
+  readonly eventId: string;
+  // Aborted when the client cancels the job
+  readonly signal: AbortSignal;
+  // Report progress, as gr.Progress does: step index of length
+  progress(index: number, length: number, desc?: string): void;
+  // Send an intermediate value of a generator endpoint
+  yield(data: unknown[]): void;
+  // Serve contents as a file, returning the value for an output
+  file(name: string, contents: Buffer | string, mimeType?: string): MockFileData;
+  // The contents of an uploaded or served file, given its value or path
+  readFile(file: { path: string } | string): Buffer;
+}
+
+export interface MockCall {
+  endpoint: string | number;
+  data: unknown[];
+}
+
+export interface MockGradioServer {
+  // Base URL of the app, e.g. http://127.0.0.1:1234
+  url: string;
+  // The data of every job submitted
+  calls: MockCall[];
+  // The contents of every file uploaded, by path
+  uploads: Map<string, Buffer>;
+  // The event IDs of cancelled jobs
+  cancelled: string[];
+  close(): Promise<void>;
+}
+
+interface Session {
+  pending: Record<string, unknown>[];
+  stream?: ServerResponse;
+  running: number;
+}
+
+/** Start a mock Gradio app serving the endpoints, on a free local port */
+export async function startMockGradioServer(
+  endpoints: MockEndpoint[]
+): Promise<MockGradioServer> {
+  const files = new Map<string, { contents: Buffer; mimeType?: string }>();
+  const sessions = new Map<string, Session>();
+  const jobs = new Map<string, AbortController>();
+  const state: Omit<MockGradioServer, "close"> = {
+    url: "",
+    calls: [],
+    uploads: new Map(),
+    cancelled: [],
+  };
+
+  const byId = (id: number) => endpoints[id - 1];
+  const session = (hash: string) => {
+    if (!sessions.has(hash)) sessions.set(hash, { pending: [], running: 0 });
+    return sessions.get(hash)!;
+  };
+
+  // Send a message on the session's event stream, or keep it until the stream opens
+  const send = (hash: string, message: Record<string, unknown>) => {
+    const current = session(hash);
+    if (current.stream) {
+      writeEvent(current.stream, message);
+    } else {
+      current.pending.push(message);
+    }
+  };
+
+  // Gradio ends the stream once no job of the session is left
+  const finish = (hash: string) => {
+    const current = session(hash);
+    if (--current.running > 0) return;
+    send(hash, { msg: "close_stream" });
+    current.stream?.end();
+    current.stream = undefined;
+  };
+
+  const serveFile = (name: string, contents: Buffer, mimeType?: string): MockFileData => {
+    const filePath = `outputs/${randomBytes(8).toString("hex")}/${name}`;
+    files.set(filePath, { contents, mimeType });
+    return {
+      path: filePath,
+      url: `${state.url}${API_PREFIX}/file=${filePath}`,
+      orig_name: name,
+      size: contents.length,
+      mime_type: mimeType,
+      meta: { _type: "gradio.FileData" },
+    };
+  };
+
+  const readFile = (file: { path: string } | string): Buffer => {
+    const filePath = typeof file === "string" ? file : file.path;
+    const contents = state.uploads.get(filePath) ?? files.get(filePath)?.contents;
+    if (!contents) throw new Error(`No such file: ${filePath}`);
+    return contents;
+  };
+
+  async function runJob(endpoint: MockEndpoint, data: unknown[], hash: string, eventId: string) {
+    const controller = new AbortController();
+    jobs.set(eventId, controller);
+    const message = (msg: string, fields: Record<string, unknown> = {}) =>
+      send(hash, { msg, event_id: eventId, ...fields });
+
+    let generated: unknown[] | undefined;
+    const job: MockJob = {
+      eventId,
+      signal: controller.signal,
+      progress: (index, length, desc) =>
+        message("progress", {
+          progress_data: [{ index, length, unit: "steps", progress: null, desc: desc ?? null }],
+        }),
+      yield: (values) => {
+        // After the first value, sse_v3 sends each output as a diff
+        const output = generated
+          ? values.map((value, index) => diff(generated![index], value))
+          : values;
+        generated = values;
+        message("process_generating", {
+          output: { data: output, is_generating: true },
+          success: true,
+        });
+      },
+      file: (name, contents, mimeType) =>
+        serveFile(
+          name,
+          Buffer.from(contents),
+          mimeType ?? CONTENT_TYPES[path.extname(name).toLowerCase()]
+        ),
+      readFile,
+    };
+
+    message("estimation", { rank: 0, queue_size: 1, rank_eta: null });
+    message("process_starts", { eta: null });
+    try {
+      const output = await endpoint.handler(data, job);
+      if (!controller.signal.aborted) {
+        message("process_completed", {
+          output: { data: output, is_generating: false, duration: 0.1, average_duration: 0.1 },
+          success: true,
+        });
+      }
+    } catch (error) {
+      message("process_completed", {
+        output:
+          error instanceof MockGradioError
+            ? { error: error.message, title: error.title, visible: true }
+            : { error: null },
+        success: false,
+      });
+    } finally {
+      jobs.delete(eventId);
+      finish(hash);
+    }
+  }
+
+  async function handle(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url!, "http://localhost");
+    const route = url.pathname.startsWith(API_PREFIX)
+      ? url.pathname.slice(API_PREFIX.length)
+      : url.pathname;
+
+    if (request.method === "GET" && url.pathname === "/config") {
+      return sendJson(response, appConfig(endpoints, state.url));
+    }
+    if (request.method === "GET" && route === "/info") {
+      return sendJson(response, apiInfo(endpoints));
+    }
+    if (request.method === "POST" && route === "/queue/join") {
+      const body = JSON.parse((await readBody(request)).toString());
+      const endpoint = byId(body.fn_index);
+      if (!endpoint) {
+        return sendJson(response, { detail: `Unknown fn_index ${body.fn_index}` }, 404);
+      }
+      const eventId = randomBytes(16).toString("hex");
+      state.calls.push({
+        endpoint: endpoint.name ? `/${endpoint.name}` : body.fn_index,
+        data: body.data,
+      });
+      session(body.session_hash).running++;
+      sendJson(response, { event_id: eventId });
+      void runJob(endpoint, body.data, body.session_hash, eventId);
+      return;
+    }
+    if (request.method === "GET" && route === "/queue/data") {
+      const current = session(url.searchParams.get("session_hash") ?? "");
+      response.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      });
+      for (const message of current.pending.splice(0)) {
+        writeEvent(response, message);
+      }
+      if (current.running === 0) {
+        response.end();
+      } else {
+        current.stream = response;
+        response.on("close", () => {
+          if (current.stream === response) current.stream = undefined;
+        });
+      }
+      return;
+    }
+    if (request.method === "POST" && route === "/upload") {
+      const form = await new Response(await readBody(request), {
+        headers: { "Content-Type": request.headers["content-type"] ?? "" },
+      }).formData();
+      const paths = [];
+      for (const value of form.getAll("files")) {
+        if (typeof value === "string") continue;
+        const filePath = `uploads/${randomBytes(8).toString("hex")}/${value.name || "blob"}`;
+        state.uploads.set(filePath, Buffer.from(await value.arrayBuffer()));
+        paths.push(filePath);
+      }
+      return sendJson(response, paths);
+    }
+    if (request.method === "GET" && route.startsWith("/file=")) {
+      const filePath = decodeURIComponent(route.slice("/file=".length));
+      const file = files.get(filePath);
+      const contents = file?.contents ?? state.uploads.get(filePath);
+      if (!contents) return sendJson(response, { detail: "File not found" }, 404);
+      response.writeHead(200, {
+        "Content-Type": file?.mimeType ?? "application/octet-stream",
+      });
+      response.end(contents);
+      return;
+    }
+    if (request.method === "POST" && route === "/cancel") {
+      const body = JSON.parse((await readBody(request)).toString());
+      state.cancelled.push(body.event_id);
+      jobs.get(body.event_id)?.abort();
+      return sendJson(response, { success: true });
+    }
+    if (request.method === "POST" && route === "/reset") {
+      await readBody(request);
+      return sendJson(response, { success: true });
+    }
+    sendJson(response, { detail: "Not Found" }, 404);
+  }
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      if (!response.headersSent) {
+        sendJson(response, { detail: String(error) }, 500);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  state.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return Object.assign(state, {
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const controller of jobs.values()) controller.abort();
+        for (const current of sessions.values()) current.stream?.end();
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  });
+}
+
+// Components get IDs from 1000, after the dependencies
+function appConfig(endpoints: MockEndpoint[], root: string) {
+  const components: Record<string, unknown>[] = [];
+  const component = (type: string, label: string) => {
+    const id = 1000 + components.length;
+    components.push({ id, type: type.toLowerCase(), props: { label } });
+    return id;
+  };
+  const dependencies = endpoints.map((endpoint, index) => ({
+    id: index + 1,
+    targets: [],
+    api_name: endpoint.name ?? false,
+    inputs: endpoint.parameters.map((param) => component(param.component, param.label)),
+    outputs: endpoint.returns.map((output) => component(output.component, output.label)),
+    backend_fn: true,
+    queue: true,
+    show_api: true,
+    types: { generator: endpoint.generator ?? false, cancel: false },
+  }));
+  return {
+    version: "5.9.1",
+    mode: "blocks",
+    protocol: "sse_v3",
+    api_prefix: API_PREFIX,
+    root,
+    is_space: false,
+    enable_queue: true,
+    connect_heartbeat: false,
+    components,
+    dependencies,
+  };
+}
+
+function apiInfo(endpoints: MockEndpoint[]) {
+  const info = {
+    named_endpoints: {} as Record<string, unknown>,
+    unnamed_endpoints: {} as Record<string, unknown>,
+  };
+  endpoints.forEach((endpoint, index) => {
+    const described = {
+      parameters: endpoint.parameters.map((param) => ({
+        label: param.label,
+        parameter_name: param.parameter_name ?? null,
+        parameter_has_default: param.default !== undefined,
+        parameter_default: param.default ?? null,
+        type: param.type ?? jsonType(param.python_type),
+        python_type: { type: param.python_type, description: param.description ?? "" },
+        component: param.component,
+        example_input: param.default ?? null,
+      })),
+      returns: endpoint.returns.map((output) => ({
+        label: output.label,
+        type: jsonType(output.python_type),
+        python_type: { type: output.python_type, description: output.description ?? "" },
+        component: output.component,
+      })),
+      show_api: true,
+    };
+    if (endpoint.name) {
+      info.named_endpoints[`/${endpoint.name}`] = described;
+    } else {
+      info.unnamed_endpoints[String(index + 1)] = described;
+    }
+  });
+  return info;
+}
+
+function jsonType(pythonType: string): Record<string, unknown> {
+  switch (pythonType) {
+    case "str":
+      return { type: "string" };
+    case "int":
+    case "float":
+      return { type: "number" };
+    case "bool":
+      return { type: "boolean" };
+    default:
+      return {};
+  }
+}
+
+// Text that grows is streamed as appends, as Gradio does for chat replies
+function diff(previous: unknown, value: unknown): unknown[] {
+  if (typeof previous === "string" && typeof value === "string" && value.startsWith(previous)) {
+    return [["append", [], value.slice(previous.length)]];
+  }
+  return [["replace", [], value]];
+}
+
+function writeEvent(response: ServerResponse, message: Record<string, unknown>) {
+  // The client closes the stream itself when it cancels a job
+  if (response.writableEnded || response.destroyed) return;
+  response.write(`data: ${JSON.stringify(message)}\n\n`);
+}
+
+function sendJson(response: ServerResponse, body: unknown, status = 200) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+async function readBody(request: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
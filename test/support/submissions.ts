@@ -0,0 +1,18 @@
+import { vi } from "vitest";
+
+/** A Gradio submission that yields the given events */
+export function submission(events: unknown[]) {
+  return {
+    async *[Symbol.asyncIterator]() {
+      yield* events;
+    },
+    cancel: vi.fn(),
+  };
+}
+
+/** All the events of a submission */
+export async function collect(iterable: AsyncIterable<unknown>): Promise<unknown[]> {
+  const events = [];
+  for await (const event of iterable) events.push(event);
+  return events;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  addSpanExporter,
+  JobSpans,
+  OtlpExporter,
+  startSpan,
+  withSpan,
+  type Span,
+} from "../src/tracing";
+
+function collectSpans() {
+  const spans: Span[] = [];
+  const remove = addSpanExporter((span) => spans.push(span));
+  return { spans, remove };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("tracing", () => {
+  it("nests spans started within a span", async () => {
+    const { spans, remove } = collectSpans();
+
+    await withSpan("tool_call", { "mcp.tool": "flux" }, async () => {
+      await withSpan("connect", {}, async () => undefined);
+    });
+    remove();
+
+    const [connect, call] = spans;
+    expect(call.name).toBe("tool_call");
+    expect(connect.parentSpanId).toBe(call.spanId);
+    expect(connect.traceId).toBe(call.traceId);
+    expect(call.status.code).toBe("ok");
+  });
+
+  it("records failures", async () => {
+    const { spans, remove } = collectSpans();
+
+    await expect(
+      withSpan("connect", {}, async () => {
+        throw new Error("Space is paused");
+      })
+    ).rejects.toThrow();
+    remove();
+
+    expect(spans[0].status).toEqual({ code: "error", message: "Space is paused" });
+  });
+
+  it("follows a job through submit, queue and generate", () => {
+    const { spans, remove } = collectSpans();
+    const parent = startSpan("tool_call");
+
+    const job = new JobSpans(parent);
+    job.status({ queue: true, stage: "pending" });
+    job.status({ queue: true, stage: "pending" });
+    job.status({ queue: false, stage: "pending" });
+    job.data();
+    job.status({ queue: false, stage: "complete" });
+    remove();
+
+    expect(spans.map((span) => span.name)).toEqual(["submit", "queue", "generate"]);
+    expect(spans.every((span) => span.parentSpanId === parent.spanId)).toBe(true);
+  });
+
+  it("exports spans to an OTLP collector", async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal("fetch", fetch);
+    const exporter = new OtlpExporter("http://localhost:4318/", "1.0.0");
+    const span = startSpan("connect", { "gradio.app": "a/b" });
+    span.end();
+
+    exporter.export(span);
+    await exporter.flush();
+
+    expect(fetch).toHaveBeenCalledWith(
+      "http://localhost:4318/v1/traces",
+      expect.objectContaining({ method: "POST" })
+    );
+    const body = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(body.resourceSpans[0].scopeSpans[0].spans[0]).toMatchObject({
+      traceId: span.traceId,
+      spanId: span.spanId,
+      name: "connect",
+      attributes: [{ key: "gradio.app", value: { stringValue: "a/b" } }],
+      status: { code: 1 },
+    });
+  });
+});
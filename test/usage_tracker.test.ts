@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { CallMeasurement, UsageTracker } from "../src/usage_tracker";
+import { WorkingDirectory } from "../src/working_directory";
+
+const result = { content: [{ type: "text" as const, text: "done" }] };
+
+let directory: string;
+let tracker: UsageTracker;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+  tracker = new UsageTracker(new WorkingDirectory(directory));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function readRecords() {
+  return readFileSync(path.join(directory, ".mcp-hfspace", "usage", "usage.jsonl"), "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+describe("usage tracker", () => {
+  it("records wall time, queue time and output size", async () => {
+    vi.useFakeTimers({ now: new Date("2025-01-01T12:00:00Z") });
+    const measurement = tracker.start("flux");
+
+    measurement.status({ queue: true, stage: "pending" });
+    vi.advanceTimersByTime(3000);
+    measurement.status({ queue: false, stage: "generating" });
+    vi.advanceTimersByTime(2000);
+    await measurement.finish({ result });
+
+    expect(readRecords()).toEqual([
+      {
+        tool: "flux",
+        started: "2025-01-01T12:00:00.000Z",
+        wallSeconds: 5,
+        queueSeconds: 3,
+        outputBytes: 4,
+        success: true,
+      },
+    ]);
+  });
+
+  it("adds the size of the saved output files", async () => {
+    const file = path.join(directory, "output.png");
+    writeFileSync(file, Buffer.alloc(100));
+    const measurement = tracker.start("flux");
+
+    measurement.saved([file, path.join(directory, "removed.png")]);
+    await measurement.finish({ result });
+
+    expect(readRecords()[0]).toMatchObject({ outputBytes: 104 });
+  });
+
+  it("counts an image returned inline and saved to a file once", async () => {
+    const image = Buffer.alloc(100, 1);
+    const file = path.join(directory, "image.png");
+    writeFileSync(file, image);
+    const measurement = tracker.start("flux");
+
+    measurement.saved([file]);
+    await measurement.finish({
+      result: {
+        content: [
+          { type: "image", data: image.toString("base64"), mimeType: "image/png" },
+          { type: "image", data: Buffer.alloc(30).toString("base64"), mimeType: "image/png" },
+        ],
+      },
+    });
+
+    // The second image was not saved, so its inline size counts
+    expect(readRecords()[0]).toMatchObject({ outputBytes: 130 });
+  });
+
+  it("records failures", async () => {
+    await tracker.start("flux").finish({ error: new Error("Queue is full") });
+
+    expect(readRecords()[0]).toMatchObject({ success: false, error: "Queue is full" });
+  });
+
+  it("refuses calls once the daily cap is reached", async () => {
+    await tracker.start("flux").finish({ result });
+    await tracker.start("flux").finish({ result: { ...result, _meta: { cached: true } } });
+
+    expect(await tracker.checkCap("flux", { calls: 2 })).toBeUndefined();
+    await tracker.start("flux").finish({ result });
+    expect(await tracker.checkCap("flux", { calls: 2 })).toMatch(
+      /Daily cap reached for flux: 2 of 2 calls/
+    );
+    expect(await tracker.checkCap("whisper", { calls: 2 })).toBeUndefined();
+  });
+
+  it("counts calls still running against the cap", async () => {
+    const [first, second] = await Promise.all([
+      tracker.begin("flux", { calls: 1 }),
+      tracker.begin("flux", { calls: 1 }),
+    ]);
+
+    expect(first).not.toBeTypeOf("string");
+    expect(second).toMatch(/Daily cap reached for flux: 1 of 1 calls/);
+    expect(await tracker.checkCap("flux", { calls: 1 })).toMatch(/Daily cap reached/);
+    await (first as CallMeasurement).finish({ error: new Error("failed") });
+    expect(await tracker.checkCap("flux", { calls: 2 })).toBeUndefined();
+  });
+
+  it("reads an unreadable usage file again on the next call", async () => {
+    vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const file = path.join(directory, ".mcp-hfspace", "usage", "usage.jsonl");
+    mkdirSync(file, { recursive: true });
+
+    expect(await tracker.begin("flux", { calls: 1 })).not.toBeTypeOf("string");
+    rmSync(file, { recursive: true });
+    writeFileSync(
+      file,
+      `${JSON.stringify({ tool: "flux", started: new Date().toISOString(), wallSeconds: 1, queueSeconds: 0, outputBytes: 0, success: true })}\n`
+    );
+    // The recorded call and the one still running
+    expect(await tracker.checkCap("flux", { calls: 2 })).toMatch(/Daily cap reached/);
+  });
+
+  it("counts usage recorded by an earlier run", async () => {
+    await tracker.start("flux").finish({ result });
+
+    const restarted = new UsageTracker(new WorkingDirectory(directory));
+    expect(await restarted.checkCap("flux", { calls: 1 })).toMatch(/Daily cap reached/);
+  });
+
+  it("reports usage per tool", async () => {
+    await tracker.start("flux").finish({ result });
+    await tracker.start("flux").finish({ error: new Error("failed") });
+    await tracker.start("whisper").finish({ result });
+
+    const report = await tracker.report({}, new Map([["flux", { calls: 10 }]]));
+    const text = (report.content[0] as { text: string }).text;
+
+    expect(text).toMatch(/\| flux \| 2 \| 1 \| 0 \| .* \| 2 of 10 calls, 0s \|/);
+    expect(text).toMatch(/\| whisper \| 1 \| 0 \| 0 \|/);
+  });
+});
@@ -623,3 +623,90 @@ describe("special cases", () => {
     });
   });
 });
+
+describe("complex component types", () => {
+  it("converts numeric literals to a numeric enum", () => {
+    const param = createParameter({
+      label: "Width",
+      type: "number",
+      python_type: { type: "Literal[512, 768, 1024]", description: "" },
+      component: "Dropdown",
+    });
+
+    expect(convertParameter(param)).toEqual({
+      type: "integer",
+      description: "Width",
+      enum: [512, 768, 1024],
+    });
+  });
+
+  it("converts a CheckboxGroup to an array of choices", () => {
+    const param = createParameter({
+      label: "Styles",
+      type: "string[]",
+      python_type: { type: "List[Literal['Photo, realistic', 'Anime']]", description: "" },
+      component: "Checkboxgroup",
+    });
+
+    expect(convertParameter(param)).toEqual({
+      type: "array",
+      description: "Styles",
+      items: { type: "string", enum: ["Photo, realistic", "Anime"] },
+    });
+  });
+
+  it("converts a multiselect Dropdown to an array", () => {
+    const param = createParameter({
+      label: "Models",
+      type: "(string | number)[]",
+      python_type: { type: "List[str | int]", description: "" },
+      component: "Dropdown",
+    });
+
+    expect(convertParameter(param)).toEqual({
+      type: "array",
+      description: "Models",
+      items: { anyOf: [{ type: "string" }, { type: "integer" }] },
+    });
+  });
+
+  it("converts a Dataframe to an object with headers and rows", () => {
+    const param = createParameter({
+      label: "Table",
+      type: "{ headers: string[]; data: any[][]; metadata: Record<string, any[]> | null; }",
+      python_type: {
+        type: "Dict(headers: List[str], data: List[List[Any]], metadata: Dict(str, List[Any]) | None)",
+        description: "",
+      },
+      component: "Dataframe",
+    });
+
+    expect(convertParameter(param)).toMatchObject({
+      type: "object",
+      properties: {
+        headers: { type: "array", items: { type: "string" } },
+        data: { type: "array", items: { type: "array", items: {} } },
+      },
+    });
+  });
+
+  it("accepts any value for a JSON input", () => {
+    const param = createParameter({
+      label: "Payload",
+      type: "any",
+      python_type: { type: "Any", description: "any valid json" },
+      component: "Json",
+    });
+
+    expect(convertParameter(param)).toEqual({ description: "any valid json" });
+  });
+
+  it("keeps the view_api type when the python type is not understood", () => {
+    const param = createParameter({
+      type: "string",
+      python_type: { type: "Callable[[str], str]", description: "" },
+    });
+
+    expect(convertParameter(param)).toMatchObject({ type: "string" });
+  });
+});
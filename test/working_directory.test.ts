@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { WorkingDirectory } from "../src/working_directory";
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "mcp-hfspace-"));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("working directory", () => {
+  it("rejects paths in a sibling directory with the same prefix", async () => {
+    const work = path.join(directory, "work");
+    mkdirSync(work);
+    mkdirSync(path.join(directory, "work-other"));
+    writeFileSync(path.join(directory, "work-other", "secret.txt"), "secret");
+    writeFileSync(path.join(work, "..notes.txt"), "notes");
+    const workingDir = new WorkingDirectory(work);
+
+    await expect(workingDir.validatePath("../work-other/secret.txt")).rejects.toThrow(
+      /outside of working directory/
+    );
+    await expect(
+      workingDir.validatePath(path.join(directory, "work-other", "secret.txt"))
+    ).rejects.toThrow(/outside of working directory/);
+    expect(await workingDir.validatePath("..notes.txt")).toBe(path.join(work, "..notes.txt"));
+  });
+
+  it("keeps sessions out of each other's directories", async () => {
+    const main = new WorkingDirectory(directory);
+    const abc = main.sessionDirectory("abc");
+    main.sessionDirectory("abc2");
+    writeFileSync(path.join(directory, "sessions", "abc2", "image.png"), "png");
+
+    await expect(abc.validatePath("../abc2/image.png")).rejects.toThrow(
+      /outside of working directory/
+    );
+  });
+
+  it("leaves the session directories out of the main directory's files", async () => {
+    const main = new WorkingDirectory(directory);
+    const session = main.sessionDirectory("abc");
+    writeFileSync(path.join(directory, "shared.png"), "png");
+    writeFileSync(path.join(directory, "sessions", "abc", "private.png"), "png");
+
+    const files = (await main.listFiles()).filter((file) => file.isFile());
+    expect(files.map((file) => file.name)).toEqual(["shared.png"]);
+    expect((await session.listFiles()).map((file) => file.name)).toEqual(["private.png"]);
+  });
+});